@@ -1,5 +1,5 @@
 import { LanguageSwitcher } from '../core/language-switcher';
-import { TranslationData, LanguageSwitcherOptions } from '../types/types';
+import { TranslationData, LanguageSwitcherOptions, TranslationLoader } from '../types/types';
 
 // Type definitions for Next.js contexts
 interface GetServerSidePropsContext {
@@ -74,6 +74,20 @@ export async function getTranslationsForLanguage(
   return {};
 }
 
+// Create a namespace loader from per-language, per-namespace imports,
+// e.g. { en: { checkout: () => import('./locales/en/checkout.json') } }
+export function createTranslationLoader(
+  translationFiles: Record<string, Record<string, () => Promise<TranslationData>>>
+): TranslationLoader {
+  return async function loadTranslations(language: string, namespace: string) {
+    const getTranslation = translationFiles[language]?.[namespace];
+    if (!getTranslation) {
+      return {};
+    }
+    return await getTranslation();
+  };
+}
+
 // Load all translations for Next.js
 export async function loadAllTranslations(
   languages: string[],
@@ -180,5 +194,5 @@ export function createLocalizedLink(
 }
 
 // Export types for Next.js usage
-export type { LanguageSwitcherOptions, TranslationData };
+export type { LanguageSwitcherOptions, TranslationData, TranslationLoader };
 export { LanguageSwitcher }; 
\ No newline at end of file
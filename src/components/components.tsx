@@ -1,6 +1,8 @@
-import React, { ReactNode, useState } from 'react';
-import { useLanguage, useTranslations } from '../hooks/useLanguage';
+import React, { ReactElement, ReactNode, useMemo, useState } from 'react';
+import { useLanguage, useTranslation, useTranslations, LanguageSwitcherContext } from '../hooks/useLanguage';
+import { LanguageSwitcher as CoreLanguageSwitcher } from '../core/language-switcher';
 import { TranslationData, LanguageSwitcherOptions } from '../types/types';
+import { RichTextNode, parseRichText, escapeRichTextValues } from '../utils/rich-text';
 
 // Language Switcher Component
 export interface LanguageSwitcherProps {
@@ -20,7 +22,7 @@ export function LanguageSwitcher({
   size = 'md',
   variant = 'select'
 }: LanguageSwitcherProps) {
-  const { currentLanguage, availableLanguages, switchLanguage, direction } = useLanguage();
+  const { currentLanguage, availableLanguages, switchLanguage, direction } = useLanguage([]);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
   const sizeClasses = {
@@ -116,26 +118,69 @@ export function LanguageSwitcher({
 
 // Translation Component
 export interface TranslationProps {
-  key: string;
+  // Translation key; React keeps the `key` prop to itself
+  i18nKey: string;
   params?: Record<string, string | number>;
   children?: ReactNode;
   fallback?: string;
   className?: string;
 }
 
-export function Translation({ key, params, children, fallback, className = '' }: TranslationProps) {
-  const { t } = useLanguage();
-  const translatedText = t(key, params);
+export function Translation({ i18nKey, params, children, fallback, className = '' }: TranslationProps) {
+  const translatedText = useTranslation(i18nKey, params);
 
-  if (translatedText === key && fallback) {
-    return <span className={className}>{fallback}</span>;
+  if (translatedText === i18nKey && fallback) {
+    return <span className={className} data-i18n-key={i18nKey}>{fallback}</span>;
   }
 
   if (children) {
-    return <span className={className}>{translatedText || children}</span>;
+    return <span className={className} data-i18n-key={i18nKey}>{translatedText || children}</span>;
   }
 
-  return <span className={className}>{translatedText}</span>;
+  return <span className={className} data-i18n-key={i18nKey}>{translatedText}</span>;
+}
+
+// Translation with Component Interpolation
+export interface TransProps {
+  i18nKey: string;
+  // Elements for the translation's tags, by tag name (`<link>`) or array index (`<0>`)
+  components?: Record<string, ReactElement> | ReactElement[];
+  // ICU arguments; tags inside string values are rendered as text
+  values?: Record<string, string | number>;
+}
+
+export function Trans({ i18nKey, components = {}, values }: TransProps) {
+  const translatedText = useTranslation(i18nKey, values && escapeRichTextValues(values));
+  const nodes = useMemo(() => parseRichText(translatedText), [translatedText]);
+
+  return <>{renderRichText(nodes, components)}</>;
+}
+
+/**
+ * Render parsed tags as clones of their components. Tags without a component
+ * render their content only; self-closing tags keep the component's children.
+ */
+function renderRichText(
+  nodes: RichTextNode[],
+  components: Record<string, ReactElement> | ReactElement[]
+): ReactNode[] {
+  return nodes.map((node, index) => {
+    if (node.type === 'text') {
+      return node.value;
+    }
+
+    const component = Object.prototype.hasOwnProperty.call(components, node.name)
+      ? (components as Record<string, ReactElement>)[node.name]
+      : undefined;
+    const children = renderRichText(node.children, components);
+
+    if (!React.isValidElement(component)) {
+      return <React.Fragment key={index}>{children}</React.Fragment>;
+    }
+    return node.selfClosing || children.length === 0
+      ? React.cloneElement(component, { key: index })
+      : React.cloneElement(component, { key: index }, ...children);
+  });
 }
 
 // RTL Direction Component
@@ -145,7 +190,7 @@ export interface RTLDirectionProps {
 }
 
 export function RTLDirection({ children, className = '' }: RTLDirectionProps) {
-  const { direction, isRTL } = useLanguage();
+  const { direction, isRTL } = useLanguage([]);
 
   return (
     <div 
@@ -161,26 +206,61 @@ export function RTLDirection({ children, className = '' }: RTLDirectionProps) {
 // Language Context Provider
 export interface LanguageProviderProps {
   children: ReactNode;
-  options: LanguageSwitcherOptions;
+  // Options for the instance the provider creates, when no `switcher` is given
+  options?: LanguageSwitcherOptions;
+  // An existing instance to publish instead, e.g. one created per request on the server
+  switcher?: CoreLanguageSwitcher;
+  // Added to an instance the provider creates before it renders, and to a given one after mounting
   translations?: Record<string, TranslationData>;
 }
 
-export function LanguageProvider({ children, options, translations }: LanguageProviderProps) {
-  const { languageSwitcher, isReady } = useLanguage();
+/**
+ * Publish a LanguageSwitcher to the components below. The provider creates
+ * its own instance from `options` unless given one as `switcher`; nested
+ * providers take precedence over outer ones and over the global instance.
+ */
+export function LanguageProvider({ children, options, switcher, translations }: LanguageProviderProps) {
+  // The instance and translations last added, so each pair is added once
+  const added = React.useRef<{ switcher: CoreLanguageSwitcher; translations?: Record<string, TranslationData> } | null>(null);
 
+  // Created on first use, so a provider whose `switcher` prop is removed falls back to its own instance
+  const ownSwitcher = React.useRef<CoreLanguageSwitcher | null>(null);
+  if (!switcher && !ownSwitcher.current) {
+    if (!options) {
+      throw new Error('LanguageProvider needs either options or a switcher');
+    }
+    // Nothing subscribes to a new instance yet, so its translations are added before
+    // the children render and the first render, on the server too, is translated
+    const created = new CoreLanguageSwitcher(options);
+    Object.entries(translations || {}).forEach(([language, data]) => created.addTranslations(language, data));
+    added.current = { switcher: created, translations };
+    ownSwitcher.current = created;
+  }
+  const languageSwitcher = switcher || ownSwitcher.current!;
+
+  // A given instance may have subscribers, so its translations are added after rendering
   React.useEffect(() => {
-    if (languageSwitcher && translations) {
-      Object.entries(translations).forEach(([language, data]) => {
-        languageSwitcher.addTranslations(language, data);
-      });
+    if (added.current && added.current.switcher === languageSwitcher && added.current.translations === translations) {
+      return;
     }
+    added.current = { switcher: languageSwitcher, translations };
+    Object.entries(translations || {}).forEach(([language, data]) => languageSwitcher.addTranslations(language, data));
   }, [languageSwitcher, translations]);
 
-  if (!isReady) {
-    return <div className="flex items-center justify-center p-8">Loading...</div>;
-  }
+  // Only the instance the provider created is torn down with it
+  React.useEffect(() => () => {
+    const own = ownSwitcher.current;
+    if (own) {
+      own.stopAutoTranslation();
+      own.disableEditor();
+    }
+  }, []);
 
-  return <>{children}</>;
+  return (
+    <LanguageSwitcherContext.Provider value={languageSwitcher}>
+      {children}
+    </LanguageSwitcherContext.Provider>
+  );
 }
 
 // Higher-order component for translating components
@@ -5,23 +5,77 @@ import {
   TranslationData,
   InterpolationFunction,
   TranslationApiConfig,
-  DetectedContent
+  TranslationFormat,
+  TranslationRequest,
+  TranslationResponse,
+  TranslationLoader,
+  DetectedContent,
+  TranslationOverride,
+  TranslationStats,
+  AppliedTranslation,
+  TranslationEditorOptions,
+  JsonPatchOperation,
+  KeyResolution,
+  MissingKeyEntry,
+  MissingKeyReport,
+  LanguageSwitcherEvents,
+  EventHandler,
+  Unsubscribe
 } from '../types/types';
-import { ContentDetector } from '../utils/content-detector';
+import { ContentDetector, containsComposed } from '../utils/content-detector';
 import { TranslationService } from '../utils/translation-service';
+import { ViewportQueue } from '../utils/viewport-queue';
+import { EventEmitter } from '../utils/event-emitter';
+import { MissingKeyCollector } from '../utils/missing-keys';
+import { TranslationOverrides } from '../utils/translation-overrides';
+import { TranslationEditor } from '../utils/translation-editor';
+import { InlineMarkup } from '../utils/inline-markup';
+import { normalizeText } from '../utils/translation-cache';
+import { MessageNode, isMessageFormat, parseMessage, formatMessage } from '../utils/message-format';
+
+// Text nodes of a block translated together as one HTML text
+interface InlineBlock {
+  markup: InlineMarkup;
+  items: DetectedContent[];
+  text: string;
+}
 
 export class LanguageSwitcher implements LanguageSwitcherInstance {
   public currentLanguage: string;
   public availableLanguages: LanguageConfig[] = [];
   public translations: Record<string, TranslationData> = {};
+  /** @deprecated Use `on('languageChanged', handler)`, which supports multiple subscribers */
   public onLanguageChange?: (_language: string) => void;
 
   private options: LanguageSwitcherOptions;
-  private interpolationFunction: InterpolationFunction;
+  private events = new EventEmitter<LanguageSwitcherEvents>();
+  private interpolationFunction: InterpolationFunction | null = null;
+  private messageCache = new Map<string, { source: string; nodes: MessageNode[] }>();
   private contentDetector: ContentDetector;
+  private viewportQueue: ViewportQueue | null = null;
   private translationService: TranslationService | null = null;
+  private translationFormat: TranslationFormat = 'text';
   private isAutoTranslating = false;
-  private originalTexts = new Map<HTMLElement, string>();
+  // Original value of each translated text node or attribute
+  private originalTexts = new Map<DetectedContent, string>();
+  // Whether each translated text node or attribute shows a human or machine translation
+  private appliedTranslations = new Map<DetectedContent, AppliedTranslation>();
+  // Translated elements that had no class attribute, which restoring removes again
+  private unclassedElements = new WeakSet<HTMLElement>();
+  // Blocks showing an HTML translation, whose inline elements may have moved
+  private inlineMarkup = new Map<HTMLElement, InlineMarkup>();
+  private overrides: TranslationOverrides;
+  private editor: TranslationEditor | null = null;
+  private loaders = new Map<string, TranslationLoader>();
+  private loadedNamespaces = new Set<string>();
+  private pendingLoads = new Map<string, Promise<void>>();
+  // Loads that failed, retried only by an explicit `loadNamespaces`
+  private failedLoads = new Set<string>();
+  // Keys looked up while their namespace was loading, checked again once it settles
+  private deferredMissingKeys = new Map<string, Map<string, string[]>>();
+  private usedNamespaces = new Set<string>();
+  private fallbackChains = new Map<string, string[]>();
+  private missingKeys: MissingKeyCollector;
 
   constructor(options: LanguageSwitcherOptions) {
     this.options = {
@@ -31,12 +85,39 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
       debug: false,
       autoTranslate: false,
       preserveOriginalText: true,
+      namespaceSeparator: ':',
       ...options
     };
 
+    this.options.namespaces?.forEach(namespace => this.usedNamespaces.add(namespace));
+
+    // Wire option callbacks through the event system
+    const { onLanguageChange, onNamespaceLoaded } = this.options;
+    if (onLanguageChange) {
+      this.on('languageChanged', ({ language }) => onLanguageChange(language));
+    }
+    if (onNamespaceLoaded) {
+      this.on('namespaceLoaded', ({ language, namespace }) => onNamespaceLoaded(language, namespace));
+    }
+
     this.currentLanguage = this.options.defaultLanguage;
-    this.interpolationFunction = this.defaultInterpolation;
     this.contentDetector = new ContentDetector(this.options);
+    if (this.options.lazyTranslation && ViewportQueue.isSupported()) {
+      this.viewportQueue = new ViewportQueue({
+        rootMargin: this.options.lazyRootMargin,
+        onVisible: (content, language) => {
+          this.requestTranslations(content, language);
+        }
+      });
+    }
+    this.overrides = new TranslationOverrides(this.options.translationOverrides, {
+      onChange: overrides => this.reapplyOverrides(overrides)
+    });
+    this.missingKeys = new MissingKeyCollector({
+      onFlush: this.options.onMissingKeysFlush,
+      flushDelay: this.options.missingKeysFlushDelay,
+      debug: this.options.debug
+    });
 
     // Initialize with default language
     this.addLanguage(this.options.defaultLanguage, {
@@ -58,6 +139,10 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
     if (this.options.autoTranslate) {
       this.startAutoTranslation();
     }
+
+    if (this.options.editor) {
+      this.enableEditor(this.options.editor === true ? {} : this.options.editor);
+    }
   }
 
   /**
@@ -72,6 +157,14 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
       return;
     }
 
+    this.events.emit('languageChanging', { language, previousLanguage: this.currentLanguage });
+
+    // Load the namespaces in use before switching so the UI never shows raw keys
+    const pendingLoads = this.loadUsedNamespaces(language);
+    if (pendingLoads) {
+      await pendingLoads;
+    }
+
     const previousLanguage = this.currentLanguage;
     this.currentLanguage = language;
 
@@ -88,12 +181,44 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
       await this.translatePage(language);
     }
 
-    // Call change callback if provided
+    this.events.emit('languageChanged', { language, previousLanguage });
+
+    // Call legacy change callback if provided
     if (this.onLanguageChange) {
       this.onLanguageChange(language);
     }
   }
 
+  /**
+   * Subscribe to an event. Returns a function that removes the handler.
+   */
+  public on<K extends keyof LanguageSwitcherEvents>(
+    event: K,
+    handler: EventHandler<LanguageSwitcherEvents[K]>
+  ): Unsubscribe {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  public once<K extends keyof LanguageSwitcherEvents>(
+    event: K,
+    handler: EventHandler<LanguageSwitcherEvents[K]>
+  ): Unsubscribe {
+    return this.events.once(event, handler);
+  }
+
+  /**
+   * Remove an event handler
+   */
+  public off<K extends keyof LanguageSwitcherEvents>(
+    event: K,
+    handler: EventHandler<LanguageSwitcherEvents[K]>
+  ): void {
+    this.events.off(event, handler);
+  }
+
   /**
    * Start automatic translation
    */
@@ -107,7 +232,7 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
       if (this.translationService && this.currentLanguage !== this.options.defaultLanguage) {
         await this.translateNewContent(newContent);
       }
-    });
+    }, removed => this.forgetContent(removed));
   }
 
   /**
@@ -134,7 +259,8 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
       return;
     }
 
-    const content = this.contentDetector.getDetectedContent();
+    // Content the page has removed is not worth translating
+    const content = this.contentDetector.getDetectedContent().filter(item => (item.node || item.element).isConnected);
     await this.translateContent(content, language);
   }
 
@@ -152,33 +278,16 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
       return;
     }
 
-    const text = this.extractElementText(element);
-    if (text && this.isTranslatableText(text)) {
-      try {
-        const response = await this.translationService.translate({
-          text,
-          fromLanguage: this.options.defaultLanguage,
-          toLanguage: language,
-          element
-        });
-
-        this.applyTranslation(element, response.translatedText);
-        this.contentDetector.markAsTranslated(element, response.translatedText);
-      } catch (error) {
-        if (this.options.debug) {
-          console.error('Translation failed for element:', element, error);
-        }
-      }
-    }
+    const content = this.contentDetector.detectIn(element);
+    await this.translateContent(content, language);
   }
 
   /**
    * Restore original text for all translated elements
    */
   public restoreOriginalText(): void {
-    this.originalTexts.forEach((originalText, element) => {
-      this.restoreElementText(element);
-    });
+    this.viewportQueue?.clear();
+    this.restoreContent(Array.from(this.originalTexts.keys()));
   }
 
   /**
@@ -188,28 +297,208 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
     return this.contentDetector.getDetectedContent();
   }
 
+  /**
+   * Human-reviewed translations, applied instead of machine output. Changes
+   * take effect on the page immediately.
+   */
+  public getTranslationOverrides(): TranslationOverrides {
+    return this.overrides;
+  }
+
+  /**
+   * Number of translated text nodes and attributes on the page showing human
+   * overrides versus machine translations
+   */
+  public getTranslationStats(): TranslationStats {
+    const stats: TranslationStats = { human: 0, machine: 0 };
+    this.appliedTranslations.forEach(({ origin }) => {
+      stats[origin]++;
+    });
+    return stats;
+  }
+
+  /**
+   * Origin, provider and confidence of the translation a text node or attribute shows
+   */
+  public getTranslationDetails(content: DetectedContent): AppliedTranslation | undefined {
+    return this.appliedTranslations.get(content);
+  }
+
+  /**
+   * Open the in-context editor: translated and key-bound text is highlighted,
+   * shows its source on hover and can be edited in place. Browser only.
+   */
+  public enableEditor(options: TranslationEditorOptions = {}): void {
+    if (this.editor || typeof document === 'undefined') return;
+
+    this.editor = new TranslationEditor(this, {
+      ...options,
+      sourceLanguage: this.options.defaultLanguage,
+      getKeyPath: key => this.parseKey(key).path
+    });
+    this.editor.enable();
+  }
+
+  public disableEditor(): void {
+    if (this.editor) {
+      this.editor.disable();
+      this.editor = null;
+    }
+  }
+
+  public isEditorEnabled(): boolean {
+    return this.editor !== null;
+  }
+
+  /**
+   * Edits made in the editor as an RFC 6902 patch against `{ translations, overrides }`
+   */
+  public exportEditorPatch(): JsonPatchOperation[] {
+    return this.editor ? this.editor.exportPatch() : [];
+  }
+
   /**
    * Set translation API configuration
    */
-  public setTranslationApi(config: TranslationApiConfig): void {
+  public setTranslationApi(config: TranslationApiConfig | TranslationApiConfig[]): void {
     this.translationService = new TranslationService(config);
+    this.translationFormat = (Array.isArray(config) ? config[0] : config)?.format || 'text';
+
+    // The service reports a failure once every configured provider has been exhausted
+    this.translationService.on('translationFailed', ({ error, texts, toLanguage }) => {
+      this.events.emit('translationError', { language: toLanguage, error, texts });
+    });
   }
 
   /**
-   * Get translated text by key with optional parameter interpolation
+   * Get translated text by key with optional parameter interpolation.
+   * Translations are parsed as ICU MessageFormat unless a custom
+   * interpolation function has been set.
    */
   public getText(key: string, params?: Record<string, string | number>): string {
-    const translation = this.getTranslationByKey(key);
+    const { namespace, path } = this.parseKey(key);
+    const resolved = this.getTranslationByKey(path);
+    const translation = resolved?.value;
+
+    if (namespace) {
+      this.usedNamespaces.add(namespace);
+      if (!translation) {
+        this.requestNamespace(namespace);
+      }
+    }
     
-    if (!translation) {
+    if (!resolved || !translation) {
+      // A namespace that is still loading is not missing yet
+      if (namespace && this.isNamespacePending(namespace)) {
+        this.deferMissingKey(key, path, namespace);
+      } else {
+        this.reportMissingKey(key, path, namespace);
+      }
       return key;
     }
 
-    if (params) {
-      return this.interpolationFunction(translation, params);
+    if (this.interpolationFunction) {
+      return params ? this.interpolationFunction(translation, params) : translation;
     }
 
-    return translation;
+    return this.formatTranslation(key, translation, resolved.language, params);
+  }
+
+  /**
+   * Get the ordered list of languages consulted when looking up a key.
+   * Regional codes fall back to their base language (`pt-BR → pt`), entries in
+   * the `fallbacks` option define what follows a language, and the global
+   * `fallbackLanguage` always comes last.
+   */
+  public getFallbackChain(language: string = this.currentLanguage): string[] {
+    const cached = this.fallbackChains.get(language);
+    if (cached) {
+      return cached;
+    }
+
+    const chain: string[] = [];
+    const fallbacks = this.options.fallbacks || {};
+
+    const visit = (lang: string) => {
+      if (chain.includes(lang)) {
+        return;
+      }
+      chain.push(lang);
+
+      const configured = fallbacks[lang];
+      if (configured) {
+        configured.forEach(visit);
+        return;
+      }
+
+      const subtags = lang.split('-');
+      if (subtags.length > 1) {
+        visit(subtags.slice(0, -1).join('-'));
+      }
+    };
+
+    visit(language);
+    if (this.options.fallbackLanguage) {
+      visit(this.options.fallbackLanguage);
+    }
+
+    this.fallbackChains.set(language, chain);
+    return chain;
+  }
+
+  /**
+   * Debug helper reporting which language in the fallback chain supplies a key
+   */
+  public resolveKey(key: string, language: string = this.currentLanguage): KeyResolution {
+    const { namespace, path } = this.parseKey(key);
+    const chain = this.getFallbackChain(language);
+    const resolved = this.getTranslationByKey(path, language);
+
+    return {
+      key,
+      namespace,
+      chain,
+      resolvedLanguage: resolved?.language,
+      value: resolved?.value
+    };
+  }
+
+  /**
+   * Get keys recorded as missing, optionally for a single language
+   */
+  public getMissingKeys(language?: string): MissingKeyEntry[] {
+    return this.missingKeys.getEntries(language);
+  }
+
+  /**
+   * Export a JSON report of all missing keys grouped by language
+   */
+  public exportMissingKeys(): MissingKeyReport {
+    return this.missingKeys.exportReport();
+  }
+
+  /**
+   * Export a skeleton translation tree of the keys missing for a language,
+   * prefilled with the default language text where available
+   */
+  public exportMissingKeysSkeleton(language: string = this.currentLanguage): TranslationData {
+    return this.missingKeys.exportSkeleton(language, entry =>
+      this.getTranslationByKey(entry.path, this.options.defaultLanguage)?.value
+    );
+  }
+
+  /**
+   * Send pending missing keys to `onMissingKeysFlush` without waiting for the debounce
+   */
+  public flushMissingKeys(): Promise<void> {
+    return this.missingKeys.flush();
+  }
+
+  /**
+   * Forget collected missing keys, optionally for a single language
+   */
+  public clearMissingKeys(language?: string): void {
+    this.missingKeys.clear(language);
   }
 
   /**
@@ -226,13 +515,86 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
   }
 
   /**
-   * Add translations for a specific language
+   * Add translations for a specific language, optionally scoped to a namespace
    */
-  public addTranslations(language: string, translations: TranslationData): void {
-    this.translations[language] = {
-      ...this.translations[language],
-      ...translations
-    };
+  public addTranslations(language: string, translations: TranslationData, namespace?: string): void {
+    if (namespace) {
+      const existing = this.translations[language]?.[namespace];
+      this.translations[language] = {
+        ...this.translations[language],
+        [namespace]: {
+          ...(typeof existing === 'object' ? existing : {}),
+          ...translations
+        }
+      };
+      this.loadedNamespaces.add(this.getNamespaceId(language, namespace));
+    } else {
+      this.translations[language] = {
+        ...this.translations[language],
+        ...translations
+      };
+    }
+
+    this.events.emit('translationsAdded', { language, namespace });
+  }
+  /**
+   * Set the translation of a single key, keeping the other keys around it
+   */
+  public setTranslation(key: string, value: string, language: string = this.currentLanguage): void {
+    const { path } = this.parseKey(key);
+    const root: TranslationData = { ...this.translations[language] };
+
+    // Copy the branch down to the key so its siblings survive the shallow merge
+    let node = root;
+    path.slice(0, -1).forEach(segment => {
+      const child = node[segment];
+      node = node[segment] = typeof child === 'object' ? { ...child } : {};
+    });
+    node[path[path.length - 1]] = value;
+
+    this.addTranslations(language, { [path[0]]: root[path[0]] });
+  }
+
+
+
+  /**
+   * Register an async loader for a language and namespace.
+   * Use '*' as the language to register a loader for every language.
+   */
+  public registerLoader(language: string, namespace: string, loader: TranslationLoader): void {
+    this.loaders.set(this.getNamespaceId(language, namespace), loader);
+  }
+
+  /**
+   * Load namespaces for a language (defaults to the current language).
+   * Concurrent requests for the same namespace share a single load, and
+   * namespaces whose load failed are tried again.
+   */
+  public async loadNamespaces(namespaces: string[], language: string = this.currentLanguage): Promise<void> {
+    namespaces.forEach(namespace => this.usedNamespaces.add(namespace));
+    await Promise.all(namespaces.map(namespace => this.loadNamespace(language, namespace, true)));
+  }
+
+  /**
+   * Check if a namespace has been loaded for a language
+   */
+  public isNamespaceLoaded(namespace: string, language: string = this.currentLanguage): boolean {
+    return this.loadedNamespaces.has(this.getNamespaceId(language, namespace));
+  }
+
+  /**
+   * Check if any namespace is currently loading, optionally for a single language
+   */
+  public isLoading(language?: string): boolean {
+    return this.getLoadingNamespaces(language).length > 0;
+  }
+
+  /**
+   * Get the namespace ids (`language:namespace`) that are currently loading
+   */
+  public getLoadingNamespaces(language?: string): string[] {
+    const ids = Array.from(this.pendingLoads.keys());
+    return language ? ids.filter(id => id.startsWith(`${language}:`)) : ids;
   }
 
   /**
@@ -245,6 +607,11 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
 
     this.availableLanguages = this.availableLanguages.filter(lang => lang.code !== language);
     delete this.translations[language];
+    [this.loadedNamespaces, this.failedLoads].forEach(ids => ids.forEach(id => {
+      if (id.startsWith(`${language}:`)) {
+        ids.delete(id);
+      }
+    }));
 
     if (this.currentLanguage === language) {
       this.setLanguage(this.options.defaultLanguage);
@@ -293,9 +660,10 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
   }
 
   /**
-   * Set custom interpolation function
+   * Set custom interpolation function, replacing the built-in MessageFormat handling.
+   * Pass null to restore the default behaviour.
    */
-  public setInterpolationFunction(fn: InterpolationFunction): void {
+  public setInterpolationFunction(fn: InterpolationFunction | null): void {
     this.interpolationFunction = fn;
   }
 
@@ -326,137 +694,364 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
 
     const translatableContent = content.filter(item => 
       !item.isTranslated && 
-      this.isTranslatableText(item.originalText)
+      this.isTranslatableText(item.originalText) &&
+      !this.isSameLanguage(item.language, this.currentLanguage)
     );
 
     if (translatableContent.length === 0) return;
 
-    try {
-      const requests = translatableContent.map(item => ({
-        text: item.originalText,
-        fromLanguage: this.options.defaultLanguage,
-        toLanguage: this.currentLanguage,
-        element: item.element
-      }));
-
-      const responses = await this.translationService.translateBatch(requests);
-      
-      responses.forEach((response, index) => {
-        const content = translatableContent[index];
-        if (content && response.translatedText) {
-          this.applyTranslation(content.element, response.translatedText);
-          this.contentDetector.markAsTranslated(content.element, response.translatedText);
-        }
-      });
-    } catch (error) {
-      if (this.options.debug) {
-        console.error('Batch translation failed:', error);
-      }
-    }
+    await this.dispatchTranslations(translatableContent, this.currentLanguage);
   }
 
   private async translateContent(content: DetectedContent[], targetLanguage: string): Promise<void> {
     if (!this.translationService) return;
 
+    // Fragments already in the target language (per their `lang` or detected language) show their original text
+    this.restoreContent(content.filter(item => this.isSameLanguage(item.language, targetLanguage)));
+
     const translatableContent = content.filter(item => 
-      this.isTranslatableText(item.originalText)
+      this.isTranslatableText(item.originalText) &&
+      !this.isSameLanguage(item.language, targetLanguage)
     );
 
     if (translatableContent.length === 0) return;
 
+    await this.dispatchTranslations(translatableContent, targetLanguage);
+  }
+
+  /**
+   * Translate content now or, with lazyTranslation, once it nears the viewport
+   */
+  private async dispatchTranslations(content: DetectedContent[], language: string): Promise<void> {
+    if (this.viewportQueue) {
+      this.viewportQueue.enqueue(content, language);
+      return;
+    }
+
+    await this.requestTranslations(content, language);
+  }
+
+  private async requestTranslations(content: DetectedContent[], language: string): Promise<void> {
+    if (!this.translationService) return;
+
+    this.events.emit('autoTranslateStart', { language: language, count: content.length });
+
+    // Human overrides win over machine translation, cached or not
+    const route = this.getRoute();
+    const machineContent: DetectedContent[] = [];
+    let human = 0;
+    content.forEach(item => {
+      const override = this.overrides.get(item.originalText, language, { element: item.element, route });
+      if (override) {
+        this.applyTranslation(item, override.translation, { origin: 'human' });
+        this.contentDetector.markAsTranslated(item, override.translation);
+        human++;
+      } else {
+        machineContent.push(item);
+      }
+    });
+
+    if (machineContent.length === 0) {
+      this.events.emit('autoTranslateEnd', { language: language, count: human, human, machine: 0 });
+      return;
+    }
+
     try {
-      const requests = translatableContent.map(item => ({
-        text: item.originalText,
-        fromLanguage: this.options.defaultLanguage,
-        toLanguage: targetLanguage,
-        element: item.element
-      }));
-
-      const responses = await this.translationService.translateBatch(requests);
-      
-      responses.forEach((response, index) => {
-        const content = translatableContent[index];
-        if (content && response.translatedText) {
-          this.applyTranslation(content.element, response.translatedText);
-          this.contentDetector.markAsTranslated(content.element, response.translatedText);
+      const blocks = this.translationFormat === 'html' ? this.groupInlineMarkup(machineContent) : [];
+      const grouped = new Set<DetectedContent>();
+      blocks.forEach(block => block.items.forEach(item => grouped.add(item)));
+      const textContent = machineContent.filter(item => !grouped.has(item));
+
+      const responses = await this.translationService.translateBatch([
+        ...textContent.map(item => this.createTextRequest(item, language)),
+        ...blocks.map(({ markup, items, text }): TranslationRequest => ({
+          text,
+          fromLanguage: items[0].language,
+          toLanguage: language,
+          format: 'html',
+          element: markup.element
+        }))
+      ]);
+
+      // Lazily released content can resolve after the page moved on to another language
+      if (this.viewportQueue && this.viewportQueue.getLanguage() !== language) {
+        return;
+      }
+
+      let machine = this.applyTextResponses(textContent, responses);
+
+      // Blocks whose placeholders did not survive translation are translated node by node
+      const fallback: DetectedContent[] = [];
+      blocks.forEach((block, index) => {
+        const response = responses[textContent.length + index];
+        if (response && response.translatedText && this.applyInlineMarkup(block, response)) {
+          machine += block.items.length;
+        } else {
+          this.restoreInlineMarkup(block.markup.element);
+          fallback.push(...block.items);
         }
       });
+
+      if (fallback.length > 0) {
+        const fallbackResponses = await this.translationService.translateBatch(
+          fallback.map(item => this.createTextRequest(item, language))
+        );
+        if (this.viewportQueue && this.viewportQueue.getLanguage() !== language) {
+          return;
+        }
+        machine += this.applyTextResponses(fallback, fallbackResponses);
+      }
+
+      this.events.emit('autoTranslateEnd', { language: language, count: human + machine, human, machine });
     } catch (error) {
+      this.events.emit('translationError', { language: language, error });
       if (this.options.debug) {
-        console.error('Page translation failed:', error);
+        console.error('Batch translation failed:', error);
       }
     }
   }
 
-  private applyTranslation(element: HTMLElement, translatedText: string): void {
-    if (this.options.preserveOriginalText) {
-      this.originalTexts.set(element, this.extractElementText(element));
-    }
+  private createTextRequest(item: DetectedContent, language: string): TranslationRequest {
+    return {
+      text: item.originalText,
+      fromLanguage: item.language,
+      toLanguage: language,
+      // Plain text, even when blocks with inline markup are sent as HTML
+      format: this.translationFormat === 'html' ? 'text' : undefined,
+      element: item.element
+    };
+  }
 
-    if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
-      const placeholder = element.getAttribute('placeholder');
-      if (placeholder) {
-        element.setAttribute('placeholder', translatedText);
+  /**
+   * Apply one response per content item. Returns how many were applied.
+   */
+  private applyTextResponses(content: DetectedContent[], responses: TranslationResponse[]): number {
+    let applied = 0;
+    content.forEach((item, index) => {
+      const response = responses[index];
+      if (response && response.translatedText) {
+        this.applyTranslation(item, response.translatedText, {
+          origin: 'machine',
+          provider: response.provider,
+          confidence: response.confidence
+        });
+        this.contentDetector.markAsTranslated(item, response.translatedText);
+        applied++;
+      }
+    });
+    return applied;
+  }
+
+  /**
+   * Group text content by block, keeping blocks with inline elements whose
+   * text is all being translated from one language, to send each as one text
+   */
+  private groupInlineMarkup(content: DetectedContent[]): InlineBlock[] {
+    const byBlock = new Map<HTMLElement, DetectedContent[]>();
+    content.forEach(item => {
+      const block = item.node ? InlineMarkup.findBlock(item.node) : null;
+      if (block) {
+        byBlock.set(block, [...(byBlock.get(block) || []), item]);
+      }
+    });
+
+    const blocks: InlineBlock[] = [];
+    byBlock.forEach((items, element) => {
+      if (items.some(item => item.language !== items[0].language)) {
+        return;
+      }
+
+      // Blocks the page has changed since their last translation are recorded afresh
+      let markup = this.inlineMarkup.get(element);
+      if (!markup || !markup.isCurrent()) {
+        this.inlineMarkup.delete(element);
+        markup = new InlineMarkup(element, { isOpaque: child => this.contentDetector.isExcluded(child) });
+      }
+
+      const sources = new Map(items.map(item => [item.node!, item.originalText] as [Text, string]));
+      const text = markup.serialize(node => sources.get(node));
+      if (text !== null) {
+        blocks.push({ markup, items, text });
+      }
+    });
+    return blocks;
+  }
+
+  /**
+   * Write a block's HTML translation into its text nodes. Returns false when placeholders were lost.
+   */
+  private applyInlineMarkup({ markup, items }: InlineBlock, response: TranslationResponse): boolean {
+    const contents = new Map(items.map(item => [item.node!, item] as [Text, DetectedContent]));
+    const details: AppliedTranslation = {
+      origin: 'machine',
+      provider: response.provider,
+      confidence: response.confidence
+    };
+
+    const applied = markup.apply(response.translatedText, (node, value) => {
+      const item = contents.get(node);
+      if (item) {
+        this.writeTranslation(item, value, details);
+        this.contentDetector.markAsTranslated(item, value.trim());
       } else {
-        (element as HTMLInputElement | HTMLTextAreaElement).value = translatedText;
+        this.writeText(node, value);
       }
-    } else if (element.tagName === 'META') {
-      element.setAttribute('content', translatedText);
-    } else if (element.tagName === 'TITLE') {
-      element.textContent = translatedText;
+    });
+
+    if (applied) {
+      this.inlineMarkup.set(markup.element, markup);
+    }
+    return applied;
+  }
+
+  /**
+   * Put a block's inline elements back in their original order
+   */
+  private restoreInlineMarkup(element: HTMLElement): void {
+    const markup = this.inlineMarkup.get(element);
+    if (markup) {
+      markup.restore((node, value) => this.writeText(node, value));
+      this.inlineMarkup.delete(element);
+    }
+  }
+
+  private applyTranslation(content: DetectedContent, translatedText: string, details: AppliedTranslation): void {
+    if (content.node) {
+      // Only the text node changes, so sibling markup and its listeners survive
+      const [, leading, trailing] = /^(\s*)[\s\S]*?(\s*)$/.exec(content.node.nodeValue || '')!;
+      this.writeTranslation(content, leading + translatedText + trailing, details);
     } else {
-      element.textContent = translatedText;
+      this.writeTranslation(content, translatedText, details);
+    }
+  }
+
+  private writeTranslation(content: DetectedContent, value: string, details: AppliedTranslation): void {
+    // Keep the text from before the first translation, not the previous language's,
+    // unless the page itself has changed the source since
+    if (this.options.preserveOriginalText && (!this.originalTexts.has(content) || !content.isTranslated)) {
+      this.originalTexts.set(content, this.readContent(content));
     }
 
-    element.setAttribute('data-translated', 'true');
-    element.classList.add('translated');
+    this.writeContent(content, value);
+    this.appliedTranslations.set(content, details);
+    if (!content.element.hasAttribute('class')) {
+      this.unclassedElements.add(content.element);
+    }
+    content.element.setAttribute('data-translated', 'true');
+    content.element.classList.add('translated');
   }
 
-  private restoreElementText(element: HTMLElement): void {
-    const originalText = this.originalTexts.get(element);
-    if (originalText) {
-      if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
-        const placeholder = element.getAttribute('placeholder');
-        if (placeholder) {
-          element.setAttribute('placeholder', originalText);
-        } else {
-          (element as HTMLInputElement | HTMLTextAreaElement).value = originalText;
-        }
-      } else if (element.tagName === 'META') {
-        element.setAttribute('content', originalText);
-      } else if (element.tagName === 'TITLE') {
-        element.textContent = originalText;
-      } else {
-        element.textContent = originalText;
+  /**
+   * Drop what is kept for content removed from the page
+   */
+  private forgetContent(content: DetectedContent[]): void {
+    content.forEach(item => {
+      this.originalTexts.delete(item);
+      this.appliedTranslations.delete(item);
+    });
+    this.inlineMarkup.forEach((_markup, element) => {
+      if (!element.isConnected) {
+        this.inlineMarkup.delete(element);
       }
+    });
+    this.viewportQueue?.remove(content);
+  }
 
-      element.removeAttribute('data-translated');
-      element.classList.remove('translated');
-      this.originalTexts.delete(element);
+  /**
+   * Re-translate content currently on the page whose source text has a changed override
+   */
+  private reapplyOverrides(overrides: TranslationOverride[]): void {
+    const sources = new Set(overrides.map(override => normalizeText(override.source)));
+    const affected = this.contentDetector.getDetectedContent()
+      .filter(item => item.isTranslated && sources.has(normalizeText(item.originalText)));
+
+    if (affected.length > 0 && this.currentLanguage !== this.options.defaultLanguage) {
+      this.translateContent(affected, this.currentLanguage);
     }
   }
 
-  private extractElementText(element: HTMLElement): string {
-    if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
-      const placeholder = element.getAttribute('placeholder');
-      if (placeholder) {
-        return placeholder;
+  private getRoute(): string | undefined {
+    return typeof window !== 'undefined' && window.location ? window.location.pathname : undefined;
+  }
+
+  /**
+   * Restore every translated text node and attribute inside an element
+   */
+  private restoreElementText(element: HTMLElement): void {
+    this.restoreContent(Array.from(this.originalTexts.keys())
+      .filter(content => containsComposed(element, content.node || content.element)));
+  }
+
+  private restoreContent(contents: DetectedContent[]): void {
+    const elements = new Set<HTMLElement>();
+
+    contents.forEach(content => {
+      const originalText = this.originalTexts.get(content);
+      if (originalText !== undefined) {
+        this.writeContent(content, originalText);
+        this.originalTexts.delete(content);
+        this.appliedTranslations.delete(content);
+        elements.add(content.element);
+
+        const block = content.node ? InlineMarkup.findBlock(content.node) : null;
+        if (block) {
+          this.restoreInlineMarkup(block);
+        }
       }
-      return (element as HTMLInputElement | HTMLTextAreaElement).value || '';
-    }
+    });
 
-    if (element.tagName === 'META') {
-      const content = element.getAttribute('content');
-      return content || '';
+    // Unmark elements once none of their text nodes or attributes is translated
+    const stillTranslated = new Set(Array.from(this.originalTexts.keys()).map(content => content.element));
+    elements.forEach(element => {
+      if (!stillTranslated.has(element)) {
+        element.removeAttribute('data-translated');
+        element.classList.remove('translated');
+        if (this.unclassedElements.has(element) && element.classList.length === 0) {
+          element.removeAttribute('class');
+        }
+        this.unclassedElements.delete(element);
+      }
+    });
+  }
+
+  private readContent(content: DetectedContent): string {
+    if (content.node) {
+      return content.node.nodeValue || '';
+    }
+    if (content.attribute) {
+      return content.element.getAttribute(content.attribute) || '';
     }
+    return content.element.textContent || '';
+  }
+
+  /**
+   * Write a text node that is not detected content, e.g. one added for an HTML translation
+   */
+  private writeText(node: Text, value: string): void {
+    this.contentDetector.recordWrite(node, value);
+    node.nodeValue = value;
+  }
+
+  private writeContent(content: DetectedContent, value: string): void {
+    this.contentDetector.recordWrite(content, value);
 
-    if (element.tagName === 'TITLE') {
-      return element.textContent || '';
+    if (content.node) {
+      content.node.nodeValue = value;
+    } else if (content.attribute) {
+      content.element.setAttribute(content.attribute, value);
+    } else {
+      content.element.textContent = value;
     }
+  }
 
-    let text = element.textContent || '';
-    text = text.replace(/\s+/g, ' ').trim();
-    return text;
+  /**
+   * Whether content in `sourceLanguage` needs no translation into `targetLanguage`.
+   * A bare language matches any of its regional variants.
+   */
+  private isSameLanguage(sourceLanguage: string, targetLanguage: string): boolean {
+    const source = sourceLanguage.toLowerCase();
+    const target = targetLanguage.toLowerCase();
+    return source === target || source.split('-')[0] === target || target.split('-')[0] === source;
   }
 
   private isTranslatableText(text: string): boolean {
@@ -474,41 +1069,194 @@ export class LanguageSwitcher implements LanguageSwitcherInstance {
     return isEnglish || hasUnicode;
   }
 
-  private getTranslationByKey(key: string): string | undefined {
-    const keys = key.split('.');
-    let current: any = this.translations[this.currentLanguage];
+  private getTranslationByKey(
+    path: string[],
+    language: string = this.currentLanguage
+  ): { value: string; language: string } | undefined {
+    for (const lang of this.getFallbackChain(language)) {
+      const value = this.resolvePath(lang, path);
+      if (value !== undefined) {
+        return { value, language: lang };
+      }
+    }
+
+    return undefined;
+  }
 
-    for (const k of keys) {
+  private resolvePath(language: string, path: string[]): string | undefined {
+    let current: any = this.translations[language];
+
+    for (const k of path) {
       if (current && typeof current === 'object' && k in current) {
         current = current[k];
       } else {
-        current = undefined;
-        break;
+        return undefined;
       }
     }
 
-    if (typeof current === 'string') {
-      return current;
+    return typeof current === 'string' ? current : undefined;
+  }
+
+  private parseKey(key: string): { namespace?: string; path: string[] } {
+    const separator = this.options.namespaceSeparator;
+    const index = separator ? key.indexOf(separator) : -1;
+
+    if (separator && index > 0) {
+      const namespace = key.slice(0, index);
+      return { namespace, path: [namespace, ...key.slice(index + separator.length).split('.')] };
     }
 
-    if (this.options.fallbackLanguage && this.options.fallbackLanguage !== this.currentLanguage) {
-      current = this.translations[this.options.fallbackLanguage];
-      
-      for (const k of keys) {
-        if (current && typeof current === 'object' && k in current) {
-          current = current[k];
-        } else {
-          current = undefined;
-          break;
+    const namespace = this.options.defaultNamespace;
+    const keys = key.split('.');
+    return namespace ? { namespace, path: [namespace, ...keys] } : { path: keys };
+  }
+
+  private getNamespaceId(language: string, namespace: string): string {
+    return `${language}:${namespace}`;
+  }
+
+  private getLoader(language: string, namespace: string): TranslationLoader | undefined {
+    return this.loaders.get(this.getNamespaceId(language, namespace))
+      || this.loaders.get(this.getNamespaceId('*', namespace));
+  }
+
+  private loadNamespace(language: string, namespace: string, retry = false): Promise<void> {
+    const id = this.getNamespaceId(language, namespace);
+
+    if (this.loadedNamespaces.has(id) || (this.failedLoads.has(id) && !retry)) {
+      return Promise.resolve();
+    }
+
+    const pending = this.pendingLoads.get(id);
+    if (pending) {
+      return pending;
+    }
+
+    const loader = this.getLoader(language, namespace);
+    if (!loader) {
+      return Promise.resolve();
+    }
+
+    const load = loader(language, namespace)
+      .then((data) => {
+        this.failedLoads.delete(id);
+        this.addTranslations(language, data, namespace);
+        this.events.emit('namespaceLoaded', { language, namespace });
+      })
+      .catch((error) => {
+        this.failedLoads.add(id);
+        this.events.emit('namespaceLoadFailed', { language, namespace, error });
+        if (this.options.debug) {
+          console.error(`Failed to load namespace '${namespace}' for language '${language}':`, error);
+        }
+      })
+      .finally(() => {
+        this.pendingLoads.delete(id);
+        this.reportDeferredMissingKeys(namespace);
+      });
+
+    this.pendingLoads.set(id, load);
+    return load;
+  }
+
+  /**
+   * Start loading every namespace in use that has a loader but is not loaded yet.
+   * Returns null when there is nothing to load so callers can stay synchronous.
+   */
+  private loadUsedNamespaces(language: string): Promise<void> | null {
+    const loads: Promise<void>[] = [];
+
+    this.getFallbackChain(language).forEach(lang => {
+      this.usedNamespaces.forEach(namespace => {
+        if (!this.isNamespaceLoaded(namespace, lang) && this.getLoader(lang, namespace)) {
+          loads.push(this.loadNamespace(lang, namespace));
         }
+      });
+    });
+
+    return loads.length > 0 ? Promise.all(loads).then(() => undefined) : null;
+  }
+
+  private isNamespacePending(namespace: string): boolean {
+    return this.getFallbackChain(this.currentLanguage).some(language =>
+      this.pendingLoads.has(this.getNamespaceId(language, namespace))
+    );
+  }
+
+  private reportMissingKey(key: string, path: string[], namespace?: string): void {
+    const language = this.currentLanguage;
+    this.events.emit('missingKey', { language, key, namespace });
+
+    const isNew = this.missingKeys.add(language, key, path, namespace);
+    if (isNew && this.options.onMissingKey) {
+      this.options.onMissingKey(language, key, namespace);
+    }
+
+    if (isNew && this.options.debug) {
+      console.warn(`Missing translation for key '${key}' in language '${language}'`);
+    }
+  }
+
+  private deferMissingKey(key: string, path: string[], namespace: string): void {
+    let keys = this.deferredMissingKeys.get(namespace);
+    if (!keys) {
+      keys = new Map();
+      this.deferredMissingKeys.set(namespace, keys);
+    }
+    keys.set(key, path);
+  }
+
+  /**
+   * Report keys looked up during a namespace load that it did not provide, e.g. because it failed
+   */
+  private reportDeferredMissingKeys(namespace: string): void {
+    const keys = this.deferredMissingKeys.get(namespace);
+    if (!keys || this.isNamespacePending(namespace)) {
+      return;
+    }
+
+    this.deferredMissingKeys.delete(namespace);
+    keys.forEach((path, key) => {
+      if (!this.getTranslationByKey(path)?.value) {
+        this.reportMissingKey(key, path, namespace);
       }
+    });
+  }
 
-      if (typeof current === 'string') {
-        return current;
+  private requestNamespace(namespace: string): void {
+    this.getFallbackChain(this.currentLanguage).forEach(language => {
+      this.loadNamespace(language, namespace);
+    });
+  }
+
+  private formatTranslation(
+    key: string,
+    translation: string,
+    language: string,
+    params?: Record<string, string | number>
+  ): string {
+    if (!isMessageFormat(translation)) {
+      return translation;
+    }
+
+    // Parsed messages are cached per language and key, and re-parsed if the source text changes
+    const cacheKey = `${this.currentLanguage}:${key}`;
+    let cached = this.messageCache.get(cacheKey);
+
+    if (!cached || cached.source !== translation) {
+      try {
+        cached = { source: translation, nodes: parseMessage(translation) };
+        this.messageCache.set(cacheKey, cached);
+      } catch (error) {
+        if (this.options.debug) {
+          console.error(`Failed to parse message for key '${key}':`, error);
+        }
+        return params ? this.defaultInterpolation(translation, params) : translation;
       }
     }
 
-    return undefined;
+    // Plural rules follow the language the message was written in, not the requested one
+    return formatMessage(cached.nodes, language, params);
   }
 
   private defaultInterpolation(text: string, params: Record<string, string | number>): string {
@@ -1,8 +1,12 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { createContext, useContext, useEffect, useReducer, useRef, useCallback, useMemo } from 'react';
 import { LanguageSwitcher } from '../core/language-switcher';
-import { LanguageSwitcherOptions } from '../types/types';
+import { LanguageSwitcherOptions, Unsubscribe } from '../types/types';
+import { LanguageStore } from '../utils/language-store';
 
-// Global language switcher instance
+// Instance published by the nearest LanguageProvider
+export const LanguageSwitcherContext = createContext<LanguageSwitcher | null>(null);
+
+// Global language switcher instance, used outside any LanguageProvider
 let globalLanguageSwitcher: LanguageSwitcher | null = null;
 
 // Initialize global language switcher
@@ -21,39 +25,71 @@ export function getLanguageSwitcher(): LanguageSwitcher {
   return globalLanguageSwitcher;
 }
 
-// React hook for language switching
-export function useLanguage() {
-  const [currentLanguage, setCurrentLanguage] = useState<string>('en');
-  const [isReady, setIsReady] = useState(false);
+/**
+ * The instance of the nearest LanguageProvider, falling back to the global
+ * instance from `initializeLanguageSwitcher`, or null when there is neither
+ */
+export function useLanguageSwitcher(): LanguageSwitcher | null {
+  const contextSwitcher = useContext(LanguageSwitcherContext);
+  return contextSwitcher || globalLanguageSwitcher;
+}
 
-  const languageSwitcher = useMemo(() => {
-    try {
-      return getLanguageSwitcher();
-    } catch {
-      return null;
-    }
-  }, []);
+// React 18 has useSyncExternalStore; older versions use an effect-based subscription
+const useSyncExternalStore: <T>(
+  _subscribe: (_listener: () => void) => Unsubscribe,
+  _getSnapshot: () => T,
+  _getServerSnapshot?: () => T
+) => T = React.useSyncExternalStore || useSubscription;
+
+/**
+ * Subscribe to an instance's store, returning a snapshot that changes with
+ * the language and the given translation sections (all sections when null)
+ */
+function useLanguageSnapshot(languageSwitcher: LanguageSwitcher | null, sections: string[] | null): string {
+  const store = languageSwitcher && LanguageStore.for(languageSwitcher);
+  const getSnapshot = () => (store ? store.getSnapshot(sections) : '');
+  const getServerSnapshot = () => (store ? store.getServerSnapshot(sections) : '');
+
+  return useSyncExternalStore(store ? store.subscribe : subscribeToNothing, getSnapshot, getServerSnapshot);
+}
+
+function subscribeToNothing(): Unsubscribe {
+  return () => undefined;
+}
+
+function useSubscription<T>(subscribe: (_listener: () => void) => Unsubscribe, getSnapshot: () => T): T {
+  const value = getSnapshot();
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+  const latest = useRef({ value, getSnapshot });
 
   useEffect(() => {
-    if (languageSwitcher) {
-      setCurrentLanguage(languageSwitcher.currentLanguage);
-      setIsReady(true);
-
-      // Set up language change listener
-      const handleLanguageChange = (language: string) => {
-        setCurrentLanguage(language);
-      };
-
-      languageSwitcher.onLanguageChange = handleLanguageChange;
-
-      // Cleanup
-      return () => {
-        if (languageSwitcher.onLanguageChange === handleLanguageChange) {
-          languageSwitcher.onLanguageChange = undefined;
-        }
-      };
-    }
-  }, [languageSwitcher]);
+    latest.current = { value, getSnapshot };
+  });
+
+  useEffect(() => {
+    const check = () => {
+      if (!Object.is(latest.current.value, latest.current.getSnapshot())) {
+        forceUpdate();
+      }
+    };
+    // Catch changes made between rendering and subscribing
+    check();
+    return subscribe(check);
+  }, [subscribe]);
+
+  return value;
+}
+
+/**
+ * React hook for language switching. Components re-render when the language
+ * changes and when translations in the given namespaces (or top-level keys)
+ * change; without `namespaces`, when any translation in use changes.
+ */
+export function useLanguage(namespaces?: string[]) {
+  const languageSwitcher = useLanguageSwitcher();
+  const snapshot = useLanguageSnapshot(languageSwitcher, namespaces || null);
+  const currentLanguage = languageSwitcher ? languageSwitcher.currentLanguage : 'en';
+  const isReady = languageSwitcher !== null;
 
   const switchLanguage = useCallback(async (language: string) => {
     if (languageSwitcher) {
@@ -66,7 +102,7 @@ export function useLanguage() {
       return languageSwitcher.getText(key, params);
     }
     return key;
-  }, [languageSwitcher]);
+  }, [languageSwitcher, snapshot]);
 
   const isRTL = useCallback((): boolean => {
     if (languageSwitcher) {
@@ -118,26 +154,39 @@ export function useLanguage() {
 
 // Hook for translating specific keys with automatic updates
 export function useTranslation(key: string, params?: Record<string, string | number>) {
-  const { t, currentLanguage } = useLanguage();
-  
+  const { t } = useLanguage(useKeySections([key]));
+
   const translatedText = useMemo(() => {
     return t(key, params);
-  }, [t, key, currentLanguage, params]);
+  }, [t, key, params]);
 
   return translatedText;
 }
 
 // Hook for translating multiple keys at once
 export function useTranslations(keys: string[]) {
-  const { t, currentLanguage } = useLanguage();
-  
+  const { t } = useLanguage(useKeySections(keys));
+
   const translations = useMemo(() => {
     const result: Record<string, string> = {};
     keys.forEach(key => {
       result[key] = t(key);
     });
     return result;
-  }, [t, keys, currentLanguage]);
+  }, [t, keys]);
 
   return translations;
-} 
\ No newline at end of file
+}
+
+/**
+ * Translation sections of the given keys, so their hooks skip changes to other namespaces
+ */
+function useKeySections(keys: string[]): string[] {
+  const languageSwitcher = useLanguageSwitcher();
+  const id = keys.join('\n');
+
+  return useMemo(
+    () => (languageSwitcher ? LanguageStore.for(languageSwitcher).getSections(keys) : []),
+    [languageSwitcher, id]
+  );
+}
\ No newline at end of file
@@ -4,10 +4,19 @@ export * from './types/types';
 export * from './utils/utils';
 
 // React hooks and components
-export { useLanguage, useTranslation, useTranslations } from './hooks/useLanguage';
+export {
+  useLanguage,
+  useLanguageSwitcher,
+  useTranslation,
+  useTranslations,
+  initializeLanguageSwitcher,
+  getLanguageSwitcher,
+  LanguageSwitcherContext
+} from './hooks/useLanguage';
 export { 
   LanguageSwitcher as ReactLanguageSwitcher,
   Translation,
+  Trans,
   RTLDirection,
   LanguageProvider,
   withTranslation
@@ -16,6 +25,9 @@ export {
 // Next.js adapters
 export * from './adapters';
 
+// Translation providers
+export * from './providers';
+
 // Weglot-like functionality
 export { ContentDetector } from './utils/content-detector';
 export { TranslationService } from './utils/translation-service'; 
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { TranslationProviderFactory } from '../types/types';
+import { TranslationApiError } from './translation-api-error';
+
+/**
+ * Generic JSON endpoint. The translation request is POSTed as-is and the
+ * response may use `translatedText` or `text`.
+ */
+export const createCustomProvider: TranslationProviderFactory = (config, context) => ({
+  limits: { maxTexts: 1, maxBytes: Infinity },
+
+  async translate(request) {
+    // Outside the try: a configuration error must not be wrapped as a retryable network error
+    if (!config.endpoint) {
+      throw new Error('Custom endpoint not configured');
+    }
+
+    try {
+      const response = await context.request(config.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+
+      if (!response.ok) {
+        throw new TranslationApiError(`Custom API error: ${response.status}`, 'custom', response.status);
+      }
+
+      const data = await response.json();
+      return {
+        translatedText: data.translatedText || data.text || request.text,
+        confidence: data.confidence || 0.8,
+        detectedLanguage: data.detectedLanguage || request.fromLanguage
+      };
+    } catch (error) {
+      if (error instanceof TranslationApiError) {
+        throw error;
+      }
+      throw new TranslationApiError(`Custom translation failed: ${error}`, 'custom');
+    }
+  }
+});
\ No newline at end of file
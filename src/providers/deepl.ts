@@ -0,0 +1,90 @@
+import { TranslationProviderFactory, TranslationResponse, TranslationFormat } from '../types/types';
+import { TranslationApiError } from './translation-api-error';
+import { findLanguagePairEntry } from '../utils/term-protection';
+
+const DEEPL_URL = 'https://api-free.deepl.com/v2';
+
+/**
+ * DeepL. Batches are sent natively by repeating the `text` parameter,
+ * `glossaryIds` are sent as `glossary_id` for their language pair, and HTML
+ * payloads use XML tag handling so placeholder tags are kept.
+ */
+export const createDeepLProvider: TranslationProviderFactory = (config, context) => {
+  const headers = { 'Authorization': `DeepL-Auth-Key ${config.apiKey}` };
+
+  // DeepL only applies a glossary when the source language is given
+  const getGlossaryId = (fromLanguage: string, toLanguage: string) =>
+    fromLanguage !== 'auto' ? findLanguagePairEntry(config.glossaryIds, fromLanguage, toLanguage) : undefined;
+
+  const translateBatch = async (
+    texts: string[],
+    fromLanguage: string,
+    toLanguage: string,
+    format: TranslationFormat = config.format || 'text'
+  ): Promise<TranslationResponse[]> => {
+    try {
+      // DeepL accepts the text parameter repeated once per text
+      const body = new URLSearchParams();
+      texts.forEach(text => body.append('text', text));
+      // Source languages have no regional variants in DeepL; leave it out to auto-detect
+      if (fromLanguage !== 'auto') {
+        body.append('source_lang', fromLanguage.split('-')[0].toUpperCase());
+      }
+      body.append('target_lang', toLanguage.toUpperCase());
+      const glossaryId = getGlossaryId(fromLanguage, toLanguage);
+      if (glossaryId) {
+        body.append('glossary_id', glossaryId);
+      }
+      if (format === 'html') {
+        body.append('tag_handling', 'xml');
+      }
+
+      const response = await context.request(`${DEEPL_URL}/translate`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+        body
+      });
+
+      if (!response.ok) {
+        throw new TranslationApiError(`DeepL API error: ${response.status}`, 'deepl', response.status);
+      }
+
+      const data = await response.json();
+      return data.translations.map((translation: { text: string; detected_source_language?: string }) => ({
+        translatedText: translation.text,
+        confidence: 0.95,
+        detectedLanguage: translation.detected_source_language?.toLowerCase() || fromLanguage
+      }));
+    } catch (error) {
+      if (error instanceof TranslationApiError) {
+        throw error;
+      }
+      throw new TranslationApiError(`DeepL translation failed: ${error}`, 'deepl');
+    }
+  };
+
+  return {
+    limits: { maxTexts: 50, maxBytes: 128 * 1024 },
+
+    async translate(request) {
+      const [response] = await translateBatch([request.text], request.fromLanguage, request.toLanguage, request.format);
+      return response;
+    },
+
+    translateBatch,
+
+    hasGlossary(fromLanguage, toLanguage) {
+      return getGlossaryId(fromLanguage, toLanguage) !== undefined;
+    },
+
+    async getSupportedLanguages() {
+      const response = await context.request(`${DEEPL_URL}/languages?type=target`, { headers });
+      if (!response.ok) {
+        throw new TranslationApiError(`DeepL API error: ${response.status}`, 'deepl', response.status);
+      }
+
+      const languages: { language: string }[] = await response.json();
+      return languages.map(({ language }) => language.toLowerCase());
+    }
+  };
+};
\ No newline at end of file
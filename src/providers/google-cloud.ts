@@ -0,0 +1,113 @@
+import { TranslationProviderFactory, TranslationResponse, TranslationFormat } from '../types/types';
+import { TranslationApiError } from './translation-api-error';
+
+/**
+ * Google Cloud Translation. Uses the v2 REST API with an API key by default,
+ * or v3 (`apiVersion: 'v3'`) with `projectId` and `region` as the location.
+ */
+export const createGoogleCloudProvider: TranslationProviderFactory = (config, context) => {
+  const baseUrl = (config.endpoint || 'https://translation.googleapis.com').replace(/\/$/, '');
+  const keyParam = config.apiKey ? `?key=${encodeURIComponent(config.apiKey)}` : '';
+  const isV3 = config.apiVersion === 'v3';
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.accessToken) {
+    headers['Authorization'] = `Bearer ${config.accessToken}`;
+  }
+
+  const getParent = () => {
+    if (!config.projectId) {
+      throw new Error('Google Cloud Translation v3 requires a projectId');
+    }
+    return `projects/${config.projectId}/locations/${config.region || 'global'}`;
+  };
+
+  const call = async (url: string, body?: Record<string, unknown>) => {
+    try {
+      const response = await context.request(url, body
+        ? { method: 'POST', headers, body: JSON.stringify(body) }
+        : { headers });
+
+      if (!response.ok) {
+        throw new TranslationApiError(`Google Cloud API error: ${response.status}`, 'google-cloud', response.status);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof TranslationApiError) {
+        throw error;
+      }
+      throw new TranslationApiError(`Google Cloud translation failed: ${error}`, 'google-cloud');
+    }
+  };
+
+  const translateBatch = async (
+    texts: string[],
+    fromLanguage: string,
+    toLanguage: string,
+    format: TranslationFormat = config.format || 'text'
+  ): Promise<TranslationResponse[]> => {
+    const source = fromLanguage && fromLanguage !== 'auto' ? fromLanguage : undefined;
+    let translations: { translatedText: string; detectedSourceLanguage?: string; detectedLanguageCode?: string }[];
+
+    if (isV3) {
+      const parent = getParent();
+      const data = await call(`${baseUrl}/v3/${parent}:translateText${keyParam}`, {
+        contents: texts,
+        sourceLanguageCode: source,
+        targetLanguageCode: toLanguage,
+        mimeType: format === 'html' ? 'text/html' : 'text/plain',
+        model: config.model && !config.model.startsWith('projects/')
+          ? `${parent}/models/${config.model}`
+          : config.model
+      });
+      translations = data.translations;
+    } else {
+      const data = await call(`${baseUrl}/language/translate/v2${keyParam}`, {
+        q: texts,
+        source,
+        target: toLanguage,
+        format,
+        model: config.model
+      });
+      translations = data.data.translations;
+    }
+
+    return translations.map(translation => ({
+      translatedText: translation.translatedText,
+      confidence: 0.9,
+      detectedLanguage: (translation.detectedSourceLanguage || translation.detectedLanguageCode || fromLanguage)
+        .toLowerCase()
+    }));
+  };
+
+  return {
+    limits: { maxTexts: 128, maxBytes: 100 * 1024 },
+
+    async translate(request) {
+      const [response] = await translateBatch([request.text], request.fromLanguage, request.toLanguage, request.format);
+      return response;
+    },
+
+    translateBatch,
+
+    async detectLanguage(text) {
+      if (isV3) {
+        const data = await call(`${baseUrl}/v3/${getParent()}:detectLanguage${keyParam}`, { content: text });
+        return data.languages[0].languageCode.toLowerCase();
+      }
+
+      const data = await call(`${baseUrl}/language/translate/v2/detect${keyParam}`, { q: text });
+      return data.data.detections[0][0].language.toLowerCase();
+    },
+
+    async getSupportedLanguages() {
+      if (isV3) {
+        const data = await call(`${baseUrl}/v3/${getParent()}/supportedLanguages${keyParam}`);
+        return data.languages.map((language: { languageCode: string }) => language.languageCode.toLowerCase());
+      }
+
+      const data = await call(`${baseUrl}/language/translate/v2/languages${keyParam}`);
+      return data.data.languages.map((language: { language: string }) => language.language.toLowerCase());
+    }
+  };
+};
\ No newline at end of file
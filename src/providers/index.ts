@@ -0,0 +1,49 @@
+import { TranslationApiConfig, TranslationProvider, TranslationProviderContext, TranslationProviderFactory } from '../types/types';
+import { createDeepLProvider } from './deepl';
+import { createGoogleCloudProvider } from './google-cloud';
+import { createCustomProvider } from './custom';
+
+export { TranslationApiError } from './translation-api-error';
+export { createDeepLProvider, createGoogleCloudProvider, createCustomProvider };
+
+const providers = new Map<string, TranslationProviderFactory>([
+  ['deepl', createDeepLProvider],
+  ['google-cloud', createGoogleCloudProvider],
+  ['custom', createCustomProvider]
+]);
+
+/**
+ * Register a translation provider under a name usable as `TranslationApiConfig.provider`.
+ * Registering an existing name replaces it, including the built-in providers.
+ */
+export function registerTranslationProvider(name: string, factory: TranslationProviderFactory): void {
+  providers.set(name, factory);
+}
+
+/**
+ * Remove a registered translation provider
+ */
+export function unregisterTranslationProvider(name: string): boolean {
+  return providers.delete(name);
+}
+
+/**
+ * Names of all registered translation providers
+ */
+export function getTranslationProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Instantiate the provider named by a config
+ */
+export function createTranslationProvider(
+  config: TranslationApiConfig,
+  context: TranslationProviderContext
+): TranslationProvider {
+  const factory = providers.get(config.provider);
+  if (!factory) {
+    throw new Error(`Unsupported translation provider: ${config.provider}`);
+  }
+  return factory(config, context);
+}
\ No newline at end of file
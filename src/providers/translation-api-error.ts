@@ -0,0 +1,19 @@
+/**
+ * Error raised by a translation provider. Network errors (no status),
+ * 429 and 5xx responses are considered transient and are retried.
+ */
+export class TranslationApiError extends Error {
+  public provider: string;
+  public status?: number;
+
+  constructor(message: string, provider: string, status?: number) {
+    super(message);
+    this.name = 'TranslationApiError';
+    this.provider = provider;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
\ No newline at end of file
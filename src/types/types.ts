@@ -12,30 +12,153 @@ export interface LanguageConfig {
 export interface LanguageSwitcherOptions {
   defaultLanguage: string;
   fallbackLanguage?: string;
+  fallbacks?: Record<string, string[]>;
   persistLanguage?: boolean;
   storageKey?: string;
   onLanguageChange?: (_language: string) => void;
   debug?: boolean;
   // New options for Weglot-like functionality
   autoTranslate?: boolean;
-  translationApi?: TranslationApiConfig;
+  translationApi?: TranslationApiConfig | TranslationApiConfig[];
   contentSelectors?: string[];
   excludeSelectors?: string[];
+  translatableAttributes?: string[];
+  // Delay in ms used to coalesce DOM mutations, or 'idle' to wait for requestIdleCallback
+  mutationDebounce?: number | 'idle';
+  // Translate content only as it nears the viewport (IntersectionObserver root margin)
+  lazyTranslation?: boolean;
+  lazyRootMargin?: string;
+  // Also detect content in open shadow roots and same-origin iframes
+  traverseShadowRoots?: boolean;
+  traverseIframes?: boolean;
+  // Detect the language of content without its own `lang` attribute (default true)
+  detectContentLanguage?: boolean;
   preserveOriginalText?: boolean;
+  // Human-reviewed translations applied instead of machine output
+  translationOverrides?: TranslationOverride[];
+  // In-context editor overlay for translators (browser only)
+  editor?: boolean | TranslationEditorOptions;
+  // Namespaced, lazily loaded translations
+  namespaces?: string[];
+  defaultNamespace?: string;
+  namespaceSeparator?: string;
+  onNamespaceLoaded?: (_language: string, _namespace: string) => void;
+  // Missing key reporting
+  onMissingKey?: (_language: string, _key: string, _namespace?: string) => void;
+  onMissingKeysFlush?: (_entries: MissingKeyEntry[]) => void | Promise<void>;
+  missingKeysFlushDelay?: number;
 }
 
+// Plain text, or HTML whose inline markup is sent as `<x1>…</x1>` placeholder tags
+export type TranslationFormat = 'text' | 'html';
+
 export interface TranslationApiConfig {
-  provider: 'deepl' | 'google-cloud' | 'custom';
+  // Built-in provider or any name registered with registerTranslationProvider()
+  provider: 'deepl' | 'google-cloud' | 'custom' | (string & {});
   apiKey?: string;
   endpoint?: string;
   region?: string;
   model?: string;
+  apiVersion?: 'v2' | 'v3';
+  projectId?: string;
+  accessToken?: string;
+  // 'html' translates each block with inline markup (links, emphasis) as one sentence
+  format?: TranslationFormat;
   batchSize?: number;
   rateLimit?: number;
+  maxConcurrency?: number;
+  retries?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  cache?: boolean | TranslationCacheOptions;
+  // Term mappings per language pair, keyed "from:to" (e.g. "en:de", or "*:de" for any source)
+  glossary?: Record<string, Record<string, string>>;
+  // Native glossaries per language pair, for providers that support them (DeepL glossary_id)
+  glossaryIds?: Record<string, string>;
+  // Terms and patterns that are never translated
+  protectedTerms?: string[];
+  protectedPatterns?: RegExp[];
+  // Protect numbers, URLs, emails and {{placeholders}} (default: true)
+  autoProtect?: boolean;
+}
+
+export interface TranslationProviderLimits {
+  maxTexts: number;
+  maxBytes: number;
+}
+
+export interface TranslationProviderContext {
+  // Rate-limited fetch shared by every request of the service
+  request(_url: string, _init?: Parameters<typeof fetch>[1]): Promise<Response>;
+}
+
+/**
+ * A machine translation backend. Only `translate` is required; throw a
+ * TranslationApiError with the HTTP status to let the service retry.
+ */
+export interface TranslationProvider {
+  // Per-request payload limits used to chunk batches
+  limits?: TranslationProviderLimits;
+  translate(_request: TranslationRequest): Promise<TranslationResponse>;
+  translateBatch?(
+    _texts: string[],
+    _fromLanguage: string,
+    _toLanguage: string,
+    _format?: TranslationFormat
+  ): Promise<TranslationResponse[]>;
+  detectLanguage?(_text: string): Promise<string>;
+  getSupportedLanguages?(): Promise<string[]>;
+  // Whether a native glossary covers the pair; glossary terms are then left to the provider
+  hasGlossary?(_fromLanguage: string, _toLanguage: string): boolean;
+}
+
+export type TranslationProviderFactory = (
+  _config: TranslationApiConfig,
+  _context: TranslationProviderContext
+) => TranslationProvider;
+
+export interface TranslationCacheOptions {
+  ttl?: number;
+  maxEntries?: number;
+  store?: TranslationCacheStore;
+}
+
+export interface TranslationCacheEntry {
+  response: TranslationResponse;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+export interface TranslationCacheStore {
+  get(_key: string): Promise<TranslationCacheEntry | undefined>;
+  set(_key: string, _entry: TranslationCacheEntry): Promise<void>;
+  delete(_key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+export interface TranslationCacheFilter {
+  provider?: string;
+  fromLanguage?: string;
+  toLanguage?: string;
+  text?: string;
+}
+
+export interface TranslationCacheStats {
+  hits: number;
+  misses: number;
+  memoryHits: number;
+  persistentHits: number;
+  size: number;
+  hitRate: number;
 }
 
 export interface DetectedContent {
   element: HTMLElement;
+  // Text node being translated; absent for attribute content
+  node?: Text;
+  // Attribute being translated (e.g. 'alt', 'aria-label'); absent for text content
+  attribute?: string;
   originalText: string;
   translatedText?: string;
   language: string;
@@ -43,10 +166,72 @@ export interface DetectedContent {
   timestamp: number;
 }
 
+/**
+ * A human translation of a source text. Scoped overrides only apply to
+ * content inside elements matching `selector` and/or on `route` (a path,
+ * or a prefix ending in `*`), and win over unscoped ones.
+ */
+export interface TranslationOverride {
+  source: string;
+  language: string;
+  translation: string;
+  selector?: string;
+  route?: string;
+}
+
+export interface TranslationOverrideContext {
+  element?: Element;
+  route?: string;
+}
+
+export type TranslationOrigin = 'human' | 'machine';
+
+export interface TranslationStats {
+  human: number;
+  machine: number;
+}
+
+// How a translated text node or attribute got its current text
+export interface AppliedTranslation {
+  origin: TranslationOrigin;
+  provider?: string;
+  confidence?: number;
+}
+
+export interface TranslationEditorOptions {
+  highlightColor?: string;
+  onChange?: (_changes: TranslationEditorChange[]) => void;
+}
+
+/**
+ * An edit made in the editor: a key's translation, or an override for an
+ * auto-translated source text
+ */
+export interface TranslationEditorChange {
+  language: string;
+  value: string;
+  key?: string;
+  source?: string;
+}
+
+// RFC 6902 operation
+export interface JsonPatchOperation {
+  op: 'add' | 'replace' | 'remove';
+  path: string;
+  value?: unknown;
+}
+
+export interface LanguageCandidate {
+  language: string;
+  confidence: number;
+}
+
 export interface TranslationRequest {
   text: string;
   fromLanguage: string;
   toLanguage: string;
+  // Defaults to the provider's configured format
+  format?: TranslationFormat;
   context?: string;
   element?: HTMLElement;
 }
@@ -56,11 +241,12 @@ export interface TranslationResponse {
   confidence?: number;
   detectedLanguage?: string;
   alternatives?: string[];
+  provider?: string;
 }
 
 export interface ContentDetector {
   detect(): DetectedContent[];
-  watch(_callback: (_content: DetectedContent[]) => void): void;
+  watch(_callback: (_content: DetectedContent[]) => void, _onRemove?: (_content: DetectedContent[]) => void): void;
   unwatch(): void;
 }
 
@@ -79,10 +265,16 @@ export interface LanguageSwitcherInstance {
   setLanguage(_language: string): Promise<void>;
   getText(_key: string, _params?: Record<string, string | number>): string;
   addLanguage(_language: string, _config: LanguageConfig): void;
-  addTranslations(_language: string, _translations: TranslationData): void;
+  addTranslations(_language: string, _translations: TranslationData, _namespace?: string): void;
   removeLanguage(_language: string): void;
   isRTL(): boolean;
   getLanguageConfig(_language: string): LanguageConfig | undefined;
+
+  // Lazy namespace loading
+  registerLoader(_language: string, _namespace: string, _loader: TranslationLoader): void;
+  loadNamespaces(_namespaces: string[], _language?: string): Promise<void>;
+  isNamespaceLoaded(_namespace: string, _language?: string): boolean;
+  isLoading(_language?: string): boolean;
   
   // New Weglot-like methods
   startAutoTranslation(): void;
@@ -91,7 +283,66 @@ export interface LanguageSwitcherInstance {
   translateElement(_element: HTMLElement, _targetLanguage?: string): Promise<void>;
   restoreOriginalText(): void;
   getDetectedContent(): DetectedContent[];
-  setTranslationApi(_config: TranslationApiConfig): void;
+  getTranslationStats(): TranslationStats;
+  getTranslationDetails(_content: DetectedContent): AppliedTranslation | undefined;
+  setTranslationApi(_config: TranslationApiConfig | TranslationApiConfig[]): void;
+
+  // Events
+  on<K extends keyof LanguageSwitcherEvents>(_event: K, _handler: EventHandler<LanguageSwitcherEvents[K]>): Unsubscribe;
+  once<K extends keyof LanguageSwitcherEvents>(_event: K, _handler: EventHandler<LanguageSwitcherEvents[K]>): Unsubscribe;
+  off<K extends keyof LanguageSwitcherEvents>(_event: K, _handler: EventHandler<LanguageSwitcherEvents[K]>): void;
 }
 
+export interface LanguageSwitcherEvents {
+  languageChanging: { language: string; previousLanguage: string };
+  languageChanged: { language: string; previousLanguage: string };
+  translationsAdded: { language: string; namespace?: string };
+  missingKey: { language: string; key: string; namespace?: string };
+  namespaceLoaded: { language: string; namespace: string };
+  namespaceLoadFailed: { language: string; namespace: string; error: unknown };
+  autoTranslateStart: { language: string; count: number };
+  autoTranslateEnd: { language: string; count: number; human: number; machine: number };
+  translationError: { language: string; error: unknown; text?: string; texts?: string[] };
+}
+
+export interface TranslationServiceEvents {
+  translationFailed: {
+    error: unknown;
+    texts: string[];
+    fromLanguage: string;
+    toLanguage: string;
+    providers: string[];
+  };
+}
+
+export type EventHandler<T> = (_payload: T) => void;
+
+export type Unsubscribe = () => void;
+
+export interface KeyResolution {
+  key: string;
+  namespace?: string;
+  chain: string[];
+  resolvedLanguage?: string;
+  value?: string;
+}
+
+export interface MissingKeyEntry {
+  language: string;
+  key: string;
+  namespace?: string;
+  path: string[];
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface MissingKeyReport {
+  generatedAt: string;
+  total: number;
+  languages: Record<string, MissingKeyEntry[]>;
+}
+
+export type TranslationLoader = (_language: string, _namespace: string) => Promise<TranslationData>;
+
 export type InterpolationFunction = (_key: string, _params: Record<string, string | number>) => string; 
\ No newline at end of file
@@ -1,10 +1,76 @@
 import { DetectedContent, LanguageSwitcherOptions } from '../types/types';
+import { detectLanguages } from './language-detector';
+
+const DEFAULT_CONTENT_SELECTORS = [
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'p', 'span', 'div', 'a', 'button', 'label',
+  'input[placeholder]', 'textarea[placeholder]',
+  'title', 'meta[name="description"]'
+];
+
+const DEFAULT_EXCLUDE_SELECTORS = [
+  'script', 'style', 'code', 'pre',
+  '[data-no-translate]', '.no-translate'
+];
+
+const DEFAULT_TRANSLATABLE_ATTRIBUTES = [
+  'alt', 'title', 'aria-label', 'aria-description',
+  'placeholder', 'value', 'label', 'content'
+];
+
+// Attributes that hold human-readable text only on some elements
+const ATTRIBUTE_SELECTORS: Record<string, string> = {
+  value: 'input[type="submit"][value], input[type="button"][value], input[type="reset"][value]',
+  label: 'option[label], optgroup[label], track[label]',
+  content: [
+    'meta[name="description"]', 'meta[property="og:title"]', 'meta[property="og:description"]',
+    'meta[property="og:site_name"]', 'meta[property="og:image:alt"]'
+  ].join(',')
+};
+
+// Elements matched by contentSelectors whose text lives in an attribute
+const ELEMENT_TEXT_ATTRIBUTES: Record<string, string> = {
+  INPUT: 'placeholder',
+  TEXTAREA: 'placeholder',
+  META: 'content'
+};
+
+// Texts shorter than this, or detected with less confidence, keep the page
+// language unless written in another script: short UI strings are too
+// ambiguous to tell apart from the page language by their trigrams
+const MIN_DETECTION_LENGTH = 40;
+const MIN_DETECTION_CONFIDENCE = 0.9;
+
+const DEFAULT_MUTATION_DEBOUNCE = 100;
+// Upper bound on how long a continuous stream of mutations can delay a flush
+const MAX_MUTATION_WAIT = 1000;
+
+// Key for text content in the per-node write and content indexes
+const TEXT_KEY = '#text';
+
+type ContentRoot = Document | ShadowRoot;
+
+interface PendingMutations {
+  addedNodes: Set<Node>;
+  removedNodes: Set<Node>;
+  changedNodes: Map<Node, Set<string>>;
+  since: number;
+}
 
 export class ContentDetector {
   private options: LanguageSwitcherOptions;
-  private observer: MutationObserver | null = null;
+  // One observer per watched root: the document and any shadow roots and iframe documents
+  private observers = new Map<Node, MutationObserver>();
+  private frameListeners = new Map<HTMLIFrameElement, () => void>();
   private detectedContent: DetectedContent[] = [];
+  // Detected content per text node (TEXT_KEY) or element attribute
+  private contentIndex = new WeakMap<Node, Map<string, DetectedContent>>();
+  // Values the library itself wrote, so the observer can ignore them
+  private ownWrites = new WeakMap<Node, Map<string, string>>();
+  private pending: PendingMutations | null = null;
+  private flushHandle: { cancel: () => void } | null = null;
   private watchCallback: ((_content: DetectedContent[]) => void) | null = null;
+  private removeCallback: ((_content: DetectedContent[]) => void) | null = null;
   private isWatching = false;
 
   constructor(options: LanguageSwitcherOptions) {
@@ -19,60 +85,47 @@ export class ContentDetector {
       return [];
     }
 
-    const selectors = this.options.contentSelectors || [
-      'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
-      'p', 'span', 'div', 'a', 'button', 'label',
-      'input[placeholder]', 'textarea[placeholder]',
-      'title', 'meta[name="description"]'
-    ];
-
-    const excludeSelectors = this.options.excludeSelectors || [
-      'script', 'style', 'code', 'pre',
-      '[data-no-translate]', '.no-translate',
-      '[data-translated]', '.translated'
-    ];
-
-    const elements = document.querySelectorAll(selectors.join(','));
     const newContent: DetectedContent[] = [];
+    [document, ...this.findNestedRoots(document)].forEach(root => {
+      newContent.push(...this.detectRoot(root));
+    });
 
-    elements.forEach((element) => {
-      // Skip if element should be excluded
-      if (this.shouldExcludeElement(element as HTMLElement, excludeSelectors)) {
-        return;
-      }
+    return newContent;
+  }
 
-      // Skip if already detected
-      if (this.detectedContent.some(content => content.element === element)) {
-        return;
-      }
+  /**
+   * Detect the translatable content inside an element, whether or not the
+   * element itself matches `contentSelectors`
+   */
+  public detectIn(element: HTMLElement): DetectedContent[] {
+    const excludeSelectors = this.getExcludeSelectors();
 
-      const text = this.extractText(element as HTMLElement);
-      if (text && this.isTranslatableText(text)) {
-        const detectedContent: DetectedContent = {
-          element: element as HTMLElement,
-          originalText: text,
-          language: 'auto',
-          isTranslated: false,
-          timestamp: Date.now()
-        };
-
-        newContent.push(detectedContent);
-        this.detectedContent.push(detectedContent);
+    this.detectOwnedContent(element);
+    element.querySelectorAll<HTMLElement>(this.getSelector()).forEach(child => {
+      if (!this.shouldExcludeElement(child, excludeSelectors)) {
+        this.detectOwnedContent(child);
       }
     });
+    this.detectAttributeContent(element);
+    this.findNestedRoots(element).forEach(root => this.detectRoot(root));
 
-    return newContent;
+    return this.detectedContent.filter(content => containsComposed(element, content.node || content.element));
   }
 
   /**
-   * Start watching for new content being added to the page
+   * Start watching for new content being added to the page, and for
+   * detected content being removed from it
    */
-  public watch(_callback: (_content: DetectedContent[]) => void): void {
+  public watch(
+    _callback: (_content: DetectedContent[]) => void,
+    _onRemove?: (_content: DetectedContent[]) => void
+  ): void {
     if (typeof document === 'undefined' || this.isWatching) {
       return;
     }
 
     this.watchCallback = _callback;
+    this.removeCallback = _onRemove || null;
     this.isWatching = true;
 
     // Initial detection
@@ -81,69 +134,26 @@ export class ContentDetector {
       _callback(initialContent);
     }
 
-    // Watch for DOM changes
-    this.observer = new MutationObserver((mutations) => {
-      const newContent: DetectedContent[] = [];
-
-      mutations.forEach((mutation) => {
-        if (mutation.type === 'childList') {
-          mutation.addedNodes.forEach((node) => {
-            if (node.nodeType === Node.ELEMENT_NODE) {
-              const element = node as HTMLElement;
-              const content = this.detectContentInElement(element);
-              newContent.push(...content);
-            }
-          });
-        } else if (mutation.type === 'characterData') {
-          // Handle text changes
-          const parent = mutation.target.parentElement;
-          if (parent && this.isTranslatableElement(parent)) {
-            const text = this.extractText(parent);
-            if (text && this.isTranslatableText(text)) {
-              const existing = this.detectedContent.find(c => c.element === parent);
-              if (existing) {
-                existing.originalText = text;
-                existing.isTranslated = false;
-                existing.timestamp = Date.now();
-              } else {
-                const detectedContent: DetectedContent = {
-                  element: parent,
-                  originalText: text,
-                  language: 'auto',
-                  isTranslated: false,
-                  timestamp: Date.now()
-                };
-                this.detectedContent.push(detectedContent);
-                newContent.push(detectedContent);
-              }
-            }
-          }
-        }
-      });
-
-      if (newContent.length > 0 && this.watchCallback) {
-        this.watchCallback(newContent);
-      }
-    });
-
-    this.observer.observe(document.body, {
-      childList: true,
-      subtree: true,
-      characterData: true,
-      characterDataOldValue: true
-    });
+    // Watch for DOM changes in every root
+    [document, ...this.findNestedRoots(document)].forEach(root => this.observeRoot(root));
   }
 
   /**
    * Stop watching for content changes
    */
   public unwatch(): void {
-    if (this.observer) {
-      this.observer.disconnect();
-      this.observer = null;
+    this.observers.forEach(observer => observer.disconnect());
+    this.observers.clear();
+    this.frameListeners.forEach((listener, frame) => frame.removeEventListener('load', listener));
+    this.frameListeners.clear();
+    if (this.flushHandle) {
+      this.flushHandle.cancel();
+      this.flushHandle = null;
     }
+    this.pending = null;
     this.isWatching = false;
     this.watchCallback = null;
+    this.removeCallback = null;
   }
 
   /**
@@ -158,13 +168,34 @@ export class ContentDetector {
    */
   public clear(): void {
     this.detectedContent = [];
+    this.contentIndex = new WeakMap();
+  }
+
+  /**
+   * Record a value the library is about to write into detected content, or
+   * into a text node it adds itself, so the resulting mutation is not
+   * mistaken for a change to the source text or for new content
+   */
+  public recordWrite(target: DetectedContent | Text, value: string): void {
+    const node = 'originalText' in target ? target.node || target.element : target;
+    const writes = this.ownWrites.get(node) || new Map<string, string>();
+    writes.set(('originalText' in target && target.attribute) || TEXT_KEY, value);
+    this.ownWrites.set(node, writes);
+  }
+
+  /**
+   * Whether an element's content is left untranslated (excluded or `translate="no"`)
+   */
+  public isExcluded(element: HTMLElement): boolean {
+    return this.shouldExcludeElement(element, this.getExcludeSelectors()) || this.isTranslateDisabled(element);
   }
 
   /**
-   * Mark content as translated
+   * Mark content as translated. Pass the detected content itself, or the
+   * text node or element it was detected on.
    */
-  public markAsTranslated(element: HTMLElement, translatedText: string): void {
-    const content = this.detectedContent.find(c => c.element === element);
+  public markAsTranslated(target: DetectedContent | HTMLElement | Text, translatedText: string): void {
+    const content = 'originalText' in target ? target : this.contentIndex.get(target)?.get(TEXT_KEY);
     if (content) {
       content.translatedText = translatedText;
       content.isTranslated = true;
@@ -176,74 +207,526 @@ export class ContentDetector {
    * Check if element should be excluded from translation
    */
   private shouldExcludeElement(element: HTMLElement, excludeSelectors: string[]): boolean {
+    // Check the element and its ancestors, including the hosts of shadow roots
+    for (let current: HTMLElement | null = element; current; current = getComposedParent(current)) {
+      if (this.isExcludedElement(current, excludeSelectors)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Check if the element itself (ignoring its ancestors) is excluded
+   */
+  private isExcludedElement(element: HTMLElement, excludeSelectors: string[]): boolean {
     // Check for data attributes
-    if (element.hasAttribute('data-no-translate') || 
-        element.hasAttribute('data-translated') ||
-        element.classList.contains('no-translate') ||
-        element.classList.contains('translated')) {
+    if (element.hasAttribute('data-no-translate') || element.classList.contains('no-translate')) {
+      return true;
+    }
+
+    // Never rewrite text the user is editing
+    if (element.hasAttribute('contenteditable') && element.getAttribute('contenteditable') !== 'false') {
       return true;
     }
 
     // Check for exclude selectors
-    for (const selector of excludeSelectors) {
-      if (element.matches(selector)) {
-        return true;
+    return excludeSelectors.some(selector => element.matches(selector));
+  }
+
+  /**
+   * Detect the content of a document, shadow root or iframe document. Text
+   * directly inside a shadow root is owned by the root, as part of its host.
+   */
+  private detectRoot(root: ContentRoot): DetectedContent[] {
+    const excludeSelectors = this.getExcludeSelectors();
+    const content: DetectedContent[] = [];
+
+    if ('host' in root) {
+      content.push(...this.detectOwnedContent(root));
+    }
+    root.querySelectorAll<HTMLElement>(this.getSelector()).forEach(element => {
+      if (!this.shouldExcludeElement(element, excludeSelectors)) {
+        content.push(...this.detectOwnedContent(element));
       }
+    });
+    content.push(...this.detectAttributeContent(root));
+
+    return content;
+  }
+
+  /**
+   * Open shadow roots and same-origin iframe documents at or below a node,
+   * recursively, for the traversals enabled in the options
+   */
+  private findNestedRoots(scope: HTMLElement | ContentRoot): ContentRoot[] {
+    const roots: ContentRoot[] = [];
+    const excludeSelectors = this.getExcludeSelectors();
+    const candidates = Array.from(scope.querySelectorAll<HTMLElement>(
+      this.options.traverseShadowRoots ? '*' : 'iframe'
+    ));
+    if ('tagName' in scope) {
+      candidates.unshift(scope);
     }
 
-    // Check if parent is excluded
-    let parent = element.parentElement;
-    while (parent) {
-      if (this.shouldExcludeElement(parent, excludeSelectors)) {
-        return true;
+    candidates.forEach(element => {
+      if (this.shouldExcludeElement(element, excludeSelectors)) {
+        return;
       }
-      parent = parent.parentElement;
+
+      if (this.options.traverseShadowRoots && element.shadowRoot) {
+        roots.push(element.shadowRoot, ...this.findNestedRoots(element.shadowRoot));
+      }
+
+      if (this.options.traverseIframes && element.tagName === 'IFRAME') {
+        const frame = element as HTMLIFrameElement;
+        if (this.isWatching) {
+          this.watchFrame(frame);
+        }
+
+        const frameDocument = getFrameDocument(frame);
+        if (frameDocument) {
+          roots.push(frameDocument, ...this.findNestedRoots(frameDocument));
+        }
+      }
+    });
+
+    return roots;
+  }
+
+  private observeRoot(root: ContentRoot): void {
+    const target = 'host' in root ? root : root.body;
+    if (!target || this.observers.has(target)) {
+      return;
     }
 
-    return false;
+    // Coalesce mutation batches from every root into one pending flush
+    const observer = new MutationObserver((mutations) => {
+      mutations.forEach((mutation) => this.queueMutation(mutation));
+    });
+    observer.observe(target, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      characterDataOldValue: true,
+      attributes: true,
+      attributeFilter: this.getTranslatableAttributes()
+    });
+    this.observers.set(target, observer);
+  }
+
+  /**
+   * Pick up an iframe's document each time it (re)loads
+   */
+  private watchFrame(frame: HTMLIFrameElement): void {
+    if (this.frameListeners.has(frame)) {
+      return;
+    }
+
+    const listener = () => {
+      const frameDocument = getFrameDocument(frame);
+      if (!frameDocument || !this.watchCallback) {
+        return;
+      }
+
+      const content: DetectedContent[] = [];
+      [frameDocument, ...this.findNestedRoots(frameDocument)].forEach(root => {
+        this.observeRoot(root);
+        content.push(...this.detectRoot(root));
+      });
+
+      if (content.length > 0) {
+        this.watchCallback(content);
+      }
+    };
+
+    frame.addEventListener('load', listener);
+    this.frameListeners.set(frame, listener);
+  }
+
+  private getSelector(): string {
+    return (this.options.contentSelectors || DEFAULT_CONTENT_SELECTORS).join(',');
+  }
+
+  private getExcludeSelectors(): string[] {
+    return this.options.excludeSelectors || DEFAULT_EXCLUDE_SELECTORS;
+  }
+
+  private getTranslatableAttributes(): string[] {
+    return this.options.translatableAttributes || DEFAULT_TRANSLATABLE_ATTRIBUTES;
   }
 
   /**
-   * Check if element contains translatable content
+   * Detect the text nodes owned by a matched element, i.e. those that no
+   * nested match owns. Inputs and meta tags contribute their text attribute.
    */
-  private isTranslatableElement(element: HTMLElement): boolean {
-    const selectors = this.options.contentSelectors || [
-      'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
-      'p', 'span', 'div', 'a', 'button', 'label'
-    ];
+  private detectOwnedContent(owner: HTMLElement | ShadowRoot): DetectedContent[] {
+    const textAttribute = 'tagName' in owner ? ELEMENT_TEXT_ATTRIBUTES[owner.tagName] : undefined;
+    if ('tagName' in owner && textAttribute) {
+      const content = owner.hasAttribute(textAttribute) ? this.detectAttribute(owner, textAttribute) : null;
+      return content ? [content] : [];
+    }
 
-    return selectors.some(selector => element.matches(selector));
+    const element = 'host' in owner ? owner.host as HTMLElement : owner;
+    const content: DetectedContent[] = [];
+    this.getOwnedTextNodes(owner).forEach(node => {
+      const parent = node.parentElement || element;
+      const text = this.normalizeText(node.nodeValue || '');
+      if (
+        !this.getIndexed(node, TEXT_KEY) &&
+        !this.isOwnText(node) &&
+        this.isTranslatableText(text) &&
+        !this.isTranslateDisabled(parent)
+      ) {
+        content.push(this.track({ element: parent, node, text }));
+      }
+    });
+    return content;
   }
 
   /**
-   * Extract text content from an element
+   * Collect text nodes below an element, skipping excluded subtrees and
+   * nested matched elements (which own their own text)
    */
-  private extractText(element: HTMLElement): string {
-    // Handle different types of content
-    if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
-      const placeholder = element.getAttribute('placeholder');
-      if (placeholder) {
-        return placeholder;
+  private getOwnedTextNodes(root: HTMLElement | ShadowRoot): Text[] {
+    const selector = this.getSelector();
+    const excludeSelectors = this.getExcludeSelectors();
+    const nodes: Text[] = [];
+
+    const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+      acceptNode: (node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+          return NodeFilter.FILTER_ACCEPT;
+        }
+
+        // A textarea's text is its value, which belongs to the user
+        const element = node as HTMLElement;
+        if (
+          this.isExcludedElement(element, excludeSelectors) ||
+          element.matches(selector) ||
+          element.tagName === 'TEXTAREA'
+        ) {
+          return NodeFilter.FILTER_REJECT;
+        }
+        return NodeFilter.FILTER_SKIP;
       }
-      return (element as HTMLInputElement | HTMLTextAreaElement).value || '';
+    });
+
+    while (walker.nextNode()) {
+      nodes.push(walker.currentNode as Text);
     }
+    return nodes;
+  }
 
-    if (element.tagName === 'META') {
-      const content = element.getAttribute('content');
-      return content || '';
+  /**
+   * Detect translatable attributes on an element or document and its descendants
+   */
+  private detectAttributeContent(root: HTMLElement | ContentRoot): DetectedContent[] {
+    const excludeSelectors = this.getExcludeSelectors();
+    const content: DetectedContent[] = [];
+
+    this.getTranslatableAttributes().forEach(attribute => {
+      const selector = ATTRIBUTE_SELECTORS[attribute] || `[${attribute}]`;
+      const elements = Array.from(root.querySelectorAll<HTMLElement>(selector));
+      if ('matches' in root && root.matches(selector)) {
+        elements.unshift(root);
+      }
+
+      elements.forEach(element => {
+        if (!this.shouldExcludeElement(element, excludeSelectors)) {
+          const detected = this.detectAttribute(element, attribute);
+          if (detected) {
+            content.push(detected);
+          }
+        }
+      });
+    });
+
+    return content;
+  }
+
+  private detectAttribute(element: HTMLElement, attribute: string): DetectedContent | null {
+    if (this.getIndexed(element, attribute)) {
+      return null;
     }
 
-    if (element.tagName === 'TITLE') {
-      return element.textContent || '';
+    const text = this.normalizeText(element.getAttribute(attribute) || '');
+    return this.isTranslatableText(text) && !this.isTranslateDisabled(element)
+      ? this.track({ element, attribute, text })
+      : null;
+  }
+
+  /**
+   * Apply the HTML `translate` attribute: the nearest ancestor declaring it
+   * wins, so `translate="yes"` re-enables translation inside `translate="no"`
+   */
+  private isTranslateDisabled(element: HTMLElement): boolean {
+    const scope = closestComposed(element, '[translate]');
+    return !!scope && (scope.getAttribute('translate') || '').toLowerCase() === 'no';
+  }
+
+  /**
+   * Source language of a text: a `lang` attribute below `<html>` is
+   * authoritative, otherwise the detected language when confident, or the
+   * page's language (its `lang` attribute or the default language)
+   */
+  private getSourceLanguage(element: HTMLElement, text: string): string {
+    const scope = closestComposed(element, '[lang]');
+    const lang = scope?.getAttribute('lang');
+    const language = lang ? lang.replace('_', '-') : this.options.defaultLanguage;
+    if (scope && scope !== scope.ownerDocument.documentElement) {
+      return language;
     }
+    return this.options.detectContentLanguage === false ? language : detectTextLanguage(text, language);
+  }
 
-    // For other elements, get text content
-    let text = element.textContent || '';
-    
-    // Clean up whitespace
-    text = text.replace(/\s+/g, ' ').trim();
-    
-    return text;
+  private track({ element, node, attribute, text }: {
+    element: HTMLElement;
+    node?: Text;
+    attribute?: string;
+    text: string;
+  }): DetectedContent {
+    const content: DetectedContent = {
+      element,
+      node,
+      attribute,
+      originalText: text,
+      language: this.getSourceLanguage(element, text),
+      isTranslated: false,
+      timestamp: Date.now()
+    };
+
+    this.detectedContent.push(content);
+
+    const target = node || element;
+    const entries = this.contentIndex.get(target) || new Map<string, DetectedContent>();
+    entries.set(attribute || TEXT_KEY, content);
+    this.contentIndex.set(target, entries);
+
+    return content;
+  }
+
+  /**
+   * Whether a text node holds text the library wrote rather than source text
+   */
+  private isOwnText(node: Text): boolean {
+    return this.ownWrites.get(node)?.get(TEXT_KEY) === node.nodeValue;
+  }
+
+  private getIndexed(target: Node, key: string): DetectedContent | undefined {
+    return this.contentIndex.get(target)?.get(key);
+  }
+
+  /**
+   * Record a new source text for detected content. Returns true if it changed.
+   */
+  private updateOriginalText(content: DetectedContent, value: string): boolean {
+    const text = this.normalizeText(value);
+    if (!text || text === content.originalText || !this.isTranslatableText(text)) {
+      return false;
+    }
+
+    content.originalText = text;
+    content.language = this.getSourceLanguage(content.element, text);
+    content.isTranslated = false;
+    content.timestamp = Date.now();
+    return true;
+  }
+
+  /**
+   * Add a mutation record to the pending batch and schedule a flush
+   */
+  private queueMutation(mutation: MutationRecord): void {
+    if (!this.pending) {
+      this.pending = { addedNodes: new Set(), removedNodes: new Set(), changedNodes: new Map(), since: Date.now() };
+    }
+
+    if (mutation.type === 'childList') {
+      mutation.addedNodes.forEach(node => this.pending!.addedNodes.add(node));
+      mutation.removedNodes.forEach(node => this.pending!.removedNodes.add(node));
+    } else {
+      const key = mutation.type === 'attributes' ? mutation.attributeName! : TEXT_KEY;
+      const keys = this.pending.changedNodes.get(mutation.target) || new Set<string>();
+      keys.add(key);
+      this.pending.changedNodes.set(mutation.target, keys);
+    }
+
+    this.scheduleFlush();
+  }
+
+  /**
+   * Debounce flushes (or wait for an idle period), but never hold a
+   * continuous stream of mutations for longer than MAX_MUTATION_WAIT
+   */
+  private scheduleFlush(): void {
+    if (this.flushHandle) {
+      this.flushHandle.cancel();
+      this.flushHandle = null;
+    }
+
+    const delay = this.options.mutationDebounce ?? DEFAULT_MUTATION_DEBOUNCE;
+    if (this.pending && Date.now() - this.pending.since >= MAX_MUTATION_WAIT) {
+      this.flushMutations();
+      return;
+    }
+
+    const flush = () => {
+      this.flushHandle = null;
+      this.flushMutations();
+    };
+
+    if (delay === 'idle' && typeof window !== 'undefined' && window.requestIdleCallback) {
+      const handle = window.requestIdleCallback(flush, { timeout: MAX_MUTATION_WAIT });
+      this.flushHandle = { cancel: () => window.cancelIdleCallback(handle) };
+    } else {
+      const handle = setTimeout(flush, delay === 'idle' ? 0 : delay);
+      this.flushHandle = { cancel: () => clearTimeout(handle) };
+    }
+  }
+
+  /**
+   * Detect content for every node touched since the last flush
+   */
+  private flushMutations(): void {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending || !this.watchCallback) {
+      return;
+    }
+
+    const removed = this.forgetRemoved(pending.removedNodes);
+    if (removed.length > 0 && this.removeCallback) {
+      this.removeCallback(removed);
+    }
+
+    const newContent: DetectedContent[] = [];
+
+    pending.addedNodes.forEach(node => {
+      // Nodes removed again, or inside another added subtree, need no scan of their own
+      if (!node.isConnected || this.hasAddedAncestor(node, pending.addedNodes)) {
+        return;
+      }
+
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        newContent.push(...this.detectContentInElement(node as HTMLElement));
+        this.findNestedRoots(node as HTMLElement).forEach(root => {
+          this.observeRoot(root);
+          newContent.push(...this.detectRoot(root));
+        });
+      } else if (node.nodeType === Node.TEXT_NODE) {
+        newContent.push(...this.detectTextNode(node as Text));
+      }
+    });
+
+    pending.changedNodes.forEach((keys, target) => {
+      if (!target.isConnected) {
+        return;
+      }
+
+      keys.forEach(key => {
+        const value = key === TEXT_KEY
+          ? target.nodeValue || ''
+          : (target as HTMLElement).getAttribute(key) || '';
+
+        // Skip the translations and restores we wrote ourselves
+        const writes = this.ownWrites.get(target);
+        if (writes && writes.get(key) === value) {
+          return;
+        }
+        writes?.delete(key);
+
+        const existing = this.getIndexed(target, key);
+        if (existing) {
+          if (this.updateOriginalText(existing, value)) {
+            newContent.push(existing);
+          }
+        } else if (key === TEXT_KEY) {
+          newContent.push(...this.detectTextNode(target as Text));
+        } else {
+          newContent.push(...this.detectChangedAttribute(target as HTMLElement, key));
+        }
+      });
+    });
+
+    if (newContent.length > 0) {
+      this.watchCallback(newContent);
+    }
+  }
+
+  /**
+   * Drop detected content inside removed nodes that are still off the page,
+   * so replaced feed items are neither kept alive nor translated again
+   */
+  private forgetRemoved(removedNodes: Set<Node>): DetectedContent[] {
+    const removedRoots = Array.from(removedNodes).filter(node => !node.isConnected);
+    if (removedRoots.length === 0) {
+      return [];
+    }
+
+    const removed: DetectedContent[] = [];
+    this.detectedContent = this.detectedContent.filter(content => {
+      const target = content.node || content.element;
+      if (target.isConnected || !removedRoots.some(root => containsComposed(root, target))) {
+        return true;
+      }
+
+      removed.push(content);
+      this.contentIndex.get(target)?.delete(content.attribute || TEXT_KEY);
+      return false;
+    });
+    return removed;
+  }
+
+  private hasAddedAncestor(node: Node, addedNodes: Set<Node>): boolean {
+    for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+      if (addedNodes.has(parent)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Detect a single text node, e.g. one added to or changed in existing content
+   */
+  private detectTextNode(node: Text): DetectedContent[] {
+    const parent = node.parentElement;
+    if (!parent || parent.closest('textarea') || this.shouldExcludeElement(parent, this.getExcludeSelectors())) {
+      return [];
+    }
+
+    const owner = parent.closest<HTMLElement>(this.getSelector());
+    if (owner ? ELEMENT_TEXT_ATTRIBUTES[owner.tagName] : !isInShadowRoot(parent)) {
+      return [];
+    }
+
+    const text = this.normalizeText(node.nodeValue || '');
+    if (
+      this.getIndexed(node, TEXT_KEY) ||
+      this.isOwnText(node) ||
+      !this.isTranslatableText(text) ||
+      this.isTranslateDisabled(parent)
+    ) {
+      return [];
+    }
+    return [this.track({ element: parent, node, text })];
+  }
+
+  private detectChangedAttribute(element: HTMLElement, attribute: string): DetectedContent[] {
+    if (
+      !element.matches(ATTRIBUTE_SELECTORS[attribute] || `[${attribute}]`) ||
+      this.shouldExcludeElement(element, this.getExcludeSelectors())
+    ) {
+      return [];
+    }
+
+    const content = this.detectAttribute(element, attribute);
+    return content ? [content] : [];
+  }
+
+  private normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
   }
 
   /**
@@ -268,41 +751,94 @@ export class ContentDetector {
   }
 
   /**
-   * Detect content in a specific element and its children
+   * Detect content in a specific element and its children. Only the element's
+   * own subtree is scanned, so appending to a long list stays incremental.
    */
   private detectContentInElement(element: HTMLElement): DetectedContent[] {
+    const selector = this.getSelector();
+    const excludeSelectors = this.getExcludeSelectors();
     const content: DetectedContent[] = [];
-    
-    if (this.isTranslatableElement(element)) {
-      const text = this.extractText(element);
-      if (text && this.isTranslatableText(text)) {
-        content.push({
-          element,
-          originalText: text,
-          language: 'auto',
-          isTranslated: false,
-          timestamp: Date.now()
-        });
-      }
+
+    if (this.shouldExcludeElement(element, excludeSelectors)) {
+      return content;
     }
 
-    // Check children
-    const children = element.querySelectorAll('*');
-    children.forEach((child) => {
-      if (this.isTranslatableElement(child as HTMLElement)) {
-        const text = this.extractText(child as HTMLElement);
-        if (text && this.isTranslatableText(text)) {
-          content.push({
-            element: child as HTMLElement,
-            originalText: text,
-            language: 'auto',
-            isTranslated: false,
-            timestamp: Date.now()
-          });
-        }
+    // An unmatched element added inside matched content (or a shadow root) holds text its owner owns
+    if (element.matches(selector) || element.parentElement?.closest(selector) || isInShadowRoot(element)) {
+      content.push(...this.detectOwnedContent(element));
+    }
+
+    element.querySelectorAll<HTMLElement>(selector).forEach(child => {
+      if (!this.shouldExcludeElement(child, excludeSelectors)) {
+        content.push(...this.detectOwnedContent(child));
       }
     });
+    content.push(...this.detectAttributeContent(element));
 
     return content;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Parent element, continuing from the top of a shadow tree to its host
+ */
+function getComposedParent(element: HTMLElement): HTMLElement | null {
+  return element.parentElement || ((element.parentNode as ShadowRoot | null)?.host as HTMLElement | undefined) || null;
+}
+
+/**
+ * `Element.closest` that continues through shadow root hosts
+ */
+function closestComposed(element: HTMLElement, selector: string): Element | null {
+  for (let current: HTMLElement | null = element; current; ) {
+    const match = current.closest(selector);
+    if (match) {
+      return match;
+    }
+    current = ((current.getRootNode() as ShadowRoot).host as HTMLElement | undefined) || null;
+  }
+  return null;
+}
+
+function isInShadowRoot(node: Node): boolean {
+  return 'host' in node.getRootNode();
+}
+
+/**
+ * Whether a node is inside a container, looking through shadow root hosts
+ */
+export function containsComposed(container: Node, node: Node): boolean {
+  for (let current: Node | null = node; current; current = (current.getRootNode() as ShadowRoot).host || null) {
+    if (container.contains(current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * The document of a same-origin iframe, or null for cross-origin frames
+ */
+function getFrameDocument(frame: HTMLIFrameElement): Document | null {
+  try {
+    return frame.contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Language a text is written in, keeping the page language unless the text
+ * is confidently another language or in a script the page language is not
+ * written in (the only signal short texts give)
+ */
+function detectTextLanguage(text: string, pageLanguage: string): string {
+  const [best, ...others] = detectLanguages(text, { minLength: MIN_DETECTION_LENGTH });
+  const primary = pageLanguage.split('-')[0].toLowerCase();
+  if (!best || best.language === primary) {
+    return pageLanguage;
+  }
+
+  const samePageScript = others.some(candidate => candidate.language === primary);
+  return samePageScript && best.confidence < MIN_DETECTION_CONFIDENCE ? pageLanguage : best.language;
+}
\ No newline at end of file
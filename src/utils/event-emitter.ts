@@ -0,0 +1,107 @@
+import { EventHandler, Unsubscribe } from '../types/types';
+
+/**
+ * Small typed event emitter. Each event name maps to a single payload type.
+ */
+export class EventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventHandler<any>>>();
+  // Wrappers registered by `once`, by event and original handler, so `off` can remove them
+  private onceWrappers = new Map<keyof Events, Map<EventHandler<any>, EventHandler<any>>>();
+
+  /**
+   * Subscribe to an event. Returns a function that removes the handler.
+   */
+  public on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): Unsubscribe {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  public once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): Unsubscribe {
+    const wrapper: EventHandler<Events[K]> = (payload) => {
+      this.off(event, handler);
+      handler(payload);
+    };
+
+    let wrappers = this.onceWrappers.get(event);
+    if (!wrappers) {
+      wrappers = new Map();
+      this.onceWrappers.set(event, wrappers);
+    }
+    wrappers.set(handler, wrapper);
+    this.on(event, wrapper);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Remove a handler previously added with `on` or `once`
+   */
+  public off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    const wrappers = this.onceWrappers.get(event);
+    const wrapper = wrappers?.get(handler);
+    if (wrappers && wrapper) {
+      wrappers.delete(handler);
+      if (wrappers.size === 0) {
+        this.onceWrappers.delete(event);
+      }
+    }
+
+    const handlers = this.listeners.get(event);
+    if (handlers) {
+      handlers.delete(handler);
+      if (wrapper) {
+        handlers.delete(wrapper);
+      }
+      if (handlers.size === 0) {
+        this.listeners.delete(event);
+      }
+    }
+  }
+
+  /**
+   * Call every handler for an event. A throwing handler does not stop the others.
+   */
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const handlers = this.listeners.get(event);
+    if (!handlers) {
+      return;
+    }
+
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Error in '${String(event)}' event handler:`, error);
+      }
+    });
+  }
+
+  /**
+   * Get the number of handlers subscribed to an event
+   */
+  public listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.size || 0;
+  }
+
+  /**
+   * Remove all handlers, optionally for a single event
+   */
+  public removeAllListeners<K extends keyof Events>(event?: K): void {
+    if (event) {
+      this.listeners.delete(event);
+      this.onceWrappers.delete(event);
+    } else {
+      this.listeners.clear();
+      this.onceWrappers.clear();
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TranslationCacheStore, TranslationCacheEntry } from '../types/types';
+
+export interface FileCacheStoreOptions {
+  // Milliseconds to wait before writing, so changes made meanwhile share one write (default: 0)
+  writeDelay?: number;
+}
+
+/**
+ * Persistent cache store for Node.js (e.g. SSR) that keeps entries in a JSON file.
+ * Changes are batched: everything changed before a write starts goes into it.
+ * Not exported from the package root so browser bundles never pull in `fs`;
+ * import it from `dynamic-language-switcher/dist/utils/file-cache-store`.
+ */
+export class FileCacheStore implements TranslationCacheStore {
+  private filePath: string;
+  private options: FileCacheStoreOptions;
+  private entries: Promise<Map<string, TranslationCacheEntry>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Write not started yet, shared by every change made until it starts
+  private scheduledWrite: Promise<void> | null = null;
+
+  constructor(filePath: string, options: FileCacheStoreOptions = {}) {
+    this.filePath = filePath;
+    this.options = options;
+  }
+
+  async get(key: string): Promise<TranslationCacheEntry | undefined> {
+    return (await this.load()).get(key);
+  }
+
+  async set(key: string, entry: TranslationCacheEntry): Promise<void> {
+    (await this.load()).set(key, entry);
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    if ((await this.load()).delete(key)) {
+      await this.persist();
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from((await this.load()).keys());
+  }
+
+  async clear(): Promise<void> {
+    (await this.load()).clear();
+    await this.persist();
+  }
+
+  private load(): Promise<Map<string, TranslationCacheEntry>> {
+    if (!this.entries) {
+      this.entries = fs.readFile(this.filePath, 'utf8')
+        .then(content => new Map(Object.entries(JSON.parse(content) as Record<string, TranslationCacheEntry>)))
+        .catch(() => new Map());
+    }
+    return this.entries;
+  }
+
+  private persist(): Promise<void> {
+    if (this.scheduledWrite) {
+      return this.scheduledWrite;
+    }
+
+    // Serialise writes so concurrent sets never interleave partial files
+    const write = this.writeQueue.then(async () => {
+      await new Promise(resolve => setTimeout(resolve, this.options.writeDelay || 0));
+      this.scheduledWrite = null;
+
+      const entries = await this.load();
+      const data: Record<string, TranslationCacheEntry> = {};
+      entries.forEach((entry, key) => {
+        data[key] = entry;
+      });
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(data), 'utf8');
+    });
+
+    // A failed write must not block the ones queued after it
+    this.scheduledWrite = write;
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
\ No newline at end of file
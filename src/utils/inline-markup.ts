@@ -0,0 +1,286 @@
+export interface InlineMarkupOptions {
+  // Elements sent as self-closing placeholders, their content left as it is
+  isOpaque: (_element: HTMLElement) => boolean;
+}
+
+interface PlaceholderNode {
+  index: number;
+  children: MarkupNode[];
+}
+
+type MarkupNode = string | PlaceholderNode;
+
+// Elements that flow within a sentence and may be moved by its translation
+const INLINE_TAGS = new Set([
+  'A', 'ABBR', 'B', 'BDI', 'BDO', 'CITE', 'DATA', 'DEL', 'DFN', 'EM', 'FONT', 'I', 'INS',
+  'KBD', 'MARK', 'Q', 'S', 'SAMP', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'TIME', 'U', 'VAR'
+]);
+const VOID_TAGS = new Set(['BR', 'IMG', 'WBR']);
+
+const PLACEHOLDER_TAG = /<(\/?)x(\d+)\s*(\/?)>/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: '\u00a0' };
+
+/**
+ * A block of text with inline elements (links, emphasis, line breaks),
+ * translated as one sentence. Each inline element is sent as a numbered
+ * placeholder tag, `Read the <x1>terms</x1> first`, and moved to wherever
+ * the translation puts its placeholder. The block's original arrangement is
+ * recorded when it is created, so it can be serialised and restored again.
+ */
+export class InlineMarkup {
+  public readonly element: HTMLElement;
+  private options: InlineMarkupOptions;
+  // Inline elements by placeholder number - 1, and the number of each one's parent (0 for the block)
+  private placeholders: HTMLElement[] = [];
+  private parents: number[] = [];
+  // Original children of the block and of each paired placeholder
+  private children = new Map<Node, Node[]>();
+  private values = new Map<Text, string>();
+  // Text nodes without source text, sent as they are and restored from `values`
+  private literals = new Set<Text>();
+  private created: Text[] = [];
+  private supported = true;
+
+  constructor(element: HTMLElement, options: InlineMarkupOptions) {
+    this.element = element;
+    this.options = options;
+    this.record(element, 0);
+  }
+
+  /**
+   * The block a text node belongs to: its nearest ancestor that is not an inline element
+   */
+  public static findBlock(node: Text): HTMLElement | null {
+    let element = node.parentElement;
+    while (element && INLINE_TAGS.has(element.tagName) && element.parentElement) {
+      element = element.parentElement;
+    }
+    return element;
+  }
+
+  /**
+   * Whether the block still has the nodes it was recorded with, plus those added by `apply`
+   */
+  public isCurrent(): boolean {
+    return Array.from(this.children.entries()).every(([container, children]) =>
+      children.every(child => child.parentNode === container) &&
+      Array.from(container.childNodes).every(child =>
+        children.includes(child) || this.created.includes(child as Text)
+      )
+    );
+  }
+
+  /**
+   * Source text with placeholder tags, or null when the block holds no inline
+   * elements, other elements, or text that is not being translated.
+   * `getSource` gives the source text of each text node being translated.
+   */
+  public serialize(getSource: (_node: Text) => string | undefined): string | null {
+    if (!this.supported || this.placeholders.length === 0) {
+      return null;
+    }
+
+    this.literals.clear();
+    const serialize = (container: Node): string | null => {
+      let html = '';
+      for (const child of this.children.get(container)!) {
+        if (child.nodeType === Node.TEXT_NODE) {
+          const value = this.values.get(child as Text)!;
+          let source = getSource(child as Text);
+          if (source === undefined) {
+            // Numbers and punctuation are carried along; words would go untranslated
+            if (/\p{L}/u.test(value)) {
+              return null;
+            }
+            this.literals.add(child as Text);
+            source = value;
+          }
+
+          const [, leading, trailing] = /^(\s*)[\s\S]*?(\s*)$/.exec(value)!;
+          html += `${leading ? ' ' : ''}${escapeMarkup(source.trim())}${trailing ? ' ' : ''}`;
+        } else if (child.nodeType === Node.ELEMENT_NODE) {
+          const index = this.placeholders.indexOf(child as HTMLElement) + 1;
+          if (this.children.has(child)) {
+            const inner = serialize(child);
+            if (inner === null) {
+              return null;
+            }
+            html += `<x${index}>${inner}</x${index}>`;
+          } else {
+            html += `<x${index}/>`;
+          }
+        }
+      }
+      return html;
+    };
+
+    const html = serialize(this.element);
+    return html === null ? null : html.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Put a translation into the block, writing its text through `write`. Returns
+   * false, leaving the block untouched, when a placeholder was lost, repeated
+   * or moved into another element.
+   */
+  public apply(translated: string, write: (_node: Text, _value: string) => void): boolean {
+    const nodes = this.parse(translated);
+    if (!nodes) {
+      return false;
+    }
+
+    this.restoreArrangement();
+    this.arrange(this.element, nodes, write);
+    return true;
+  }
+
+  /**
+   * Put inline elements back in their original order and restore text that had no source
+   */
+  public restore(write: (_node: Text, _value: string) => void): void {
+    this.restoreArrangement();
+    this.literals.forEach(node => write(node, this.values.get(node)!));
+  }
+
+  private record(container: Node, parent: number): void {
+    const children = Array.from(container.childNodes);
+    this.children.set(container, children);
+
+    children.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        this.values.set(child as Text, child.nodeValue || '');
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const element = child as HTMLElement;
+        const opaque = VOID_TAGS.has(element.tagName) || this.options.isOpaque(element);
+        if (!opaque && !INLINE_TAGS.has(element.tagName)) {
+          this.supported = false;
+          return;
+        }
+
+        this.placeholders.push(element);
+        this.parents.push(parent);
+        if (!opaque) {
+          this.record(element, this.placeholders.length);
+        }
+      }
+    });
+  }
+
+  /**
+   * Parse a translation into text and placeholders, or null when its
+   * placeholders do not match the block's
+   */
+  private parse(translated: string): MarkupNode[] | null {
+    const root: PlaceholderNode = { index: 0, children: [] };
+    const stack = [root];
+    const seen = new Set<number>();
+    const pattern = new RegExp(PLACEHOLDER_TAG.source, 'g');
+    let position = 0;
+
+    for (let match = pattern.exec(translated); match; match = pattern.exec(translated)) {
+      const [tag, closing, number, selfClosing] = match;
+      const index = Number(number);
+      const current = stack[stack.length - 1];
+      if (match.index > position) {
+        current.children.push(decodeEntities(translated.slice(position, match.index)));
+      }
+      position = match.index + tag.length;
+
+      if (closing) {
+        if (current.index !== index || stack.length === 1) {
+          return null;
+        }
+        stack.pop();
+        continue;
+      }
+
+      const element = this.placeholders[index - 1];
+      if (!element || seen.has(index) || this.parents[index - 1] !== current.index) {
+        return null;
+      }
+      if (this.children.has(element) === !!selfClosing) {
+        return null;
+      }
+
+      seen.add(index);
+      const node: PlaceholderNode = { index, children: [] };
+      current.children.push(node);
+      if (!selfClosing) {
+        stack.push(node);
+      }
+    }
+
+    if (position < translated.length) {
+      stack[stack.length - 1].children.push(decodeEntities(translated.slice(position)));
+    }
+    return stack.length === 1 && seen.size === this.placeholders.length ? root.children : null;
+  }
+
+  /**
+   * Order a container's children as the translation does, reusing its text
+   * nodes in order. Extra text gets new nodes; unused text nodes are emptied.
+   */
+  private arrange(container: Node, nodes: MarkupNode[], write: (_node: Text, _value: string) => void): void {
+    const children = this.children.get(container)!;
+    const texts = children.filter(child => child.nodeType === Node.TEXT_NODE) as Text[];
+    const arranged: Node[] = [];
+
+    nodes.forEach(node => {
+      if (typeof node === 'string') {
+        let text = texts.shift();
+        if (!text) {
+          text = container.ownerDocument!.createTextNode('');
+          this.created.push(text);
+        }
+        write(text, node);
+        arranged.push(text);
+      } else {
+        const element = this.placeholders[node.index - 1];
+        if (this.children.has(element)) {
+          this.arrange(element, node.children, write);
+        }
+        arranged.push(element);
+      }
+    });
+
+    texts.forEach(text => {
+      write(text, '');
+      arranged.push(text);
+    });
+    // Comments and other nodes keep their place at the end
+    arranged.push(...children.filter(child => !arranged.includes(child)));
+
+    reorder(container, arranged);
+  }
+
+  private restoreArrangement(): void {
+    this.created.forEach(node => node.remove());
+    this.created = [];
+    this.children.forEach((children, container) => reorder(container, children));
+  }
+}
+
+/**
+ * Move a container's children into the given order, if they are not already in it
+ */
+function reorder(container: Node, children: Node[]): void {
+  const current = Array.from(container.childNodes);
+  if (current.length !== children.length || current.some((child, i) => child !== children[i])) {
+    children.forEach(child => container.appendChild(child));
+  }
+}
+
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { LanguageCandidate } from '../types/types';
+import { LANGUAGE_PROFILES } from './language-profiles';
+
+export interface DetectLanguageOptions {
+  // Only consider these languages
+  only?: string[];
+  // Texts with fewer letters are identified by script alone
+  minLength?: number;
+}
+
+interface ScriptRule {
+  pattern: RegExp;
+  // Languages written in the script, the most widely used first
+  languages: string[];
+}
+
+const DEFAULT_MIN_LENGTH = 10;
+const MAX_LENGTH = 2048;
+// Distance added for a trigram missing from a profile (the profile size)
+const MAX_DIFFERENCE = 300;
+// Average per-trigram distance gap that makes one language e times likelier than another
+const DISTANCE_SCALE = 5;
+
+const SCRIPTS: ScriptRule[] = [
+  {
+    pattern: /[a-z\u00c0-\u024f\u1e00-\u1eff]/gi,
+    languages: [
+      'en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'pl', 'sv', 'da', 'no', 'fi', 'cs', 'sk',
+      'hu', 'ro', 'hr', 'sl', 'et', 'lv', 'lt', 'mt', 'ga', 'cy', 'tr', 'uz', 'ku'
+    ]
+  },
+  { pattern: /[\u0400-\u04ff]/g, languages: ['ru', 'uk', 'bg', 'sr', 'mk', 'be', 'tg'] },
+  { pattern: /[\u0600-\u06ff\u0750-\u077f\ufb50-\ufdff\ufe70-\ufefc]/g, languages: ['ar', 'fa', 'ur', 'ps', 'sd', 'ks'] },
+  { pattern: /[\u0590-\u05ff]/g, languages: ['he', 'yi'] },
+  { pattern: /[\u0900-\u097f]/g, languages: ['hi', 'np'] },
+  { pattern: /[\u3040-\u30ff]/g, languages: ['ja'] },
+  { pattern: /[\u4e00-\u9fff\u3400-\u4dbf]/g, languages: ['zh'] },
+  { pattern: /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/g, languages: ['ko'] },
+  { pattern: /[\u0a00-\u0a7f]/g, languages: ['pa'] },
+  { pattern: /[\u0780-\u07bf]/g, languages: ['dv'] },
+  { pattern: /[\u0370-\u03ff\u1f00-\u1fff]/g, languages: ['el'] },
+  { pattern: /[\u0530-\u058f]/g, languages: ['hy'] },
+  { pattern: /[\u10a0-\u10ff]/g, languages: ['ka'] },
+  { pattern: /[\u0980-\u09ff]/g, languages: ['bn'] },
+  { pattern: /[\u0a80-\u0aff]/g, languages: ['gu'] },
+  { pattern: /[\u0b80-\u0bff]/g, languages: ['ta'] },
+  { pattern: /[\u0c00-\u0c7f]/g, languages: ['te'] },
+  { pattern: /[\u0c80-\u0cff]/g, languages: ['kn'] },
+  { pattern: /[\u0d00-\u0d7f]/g, languages: ['ml'] },
+  { pattern: /[\u0d80-\u0dff]/g, languages: ['si'] },
+  { pattern: /[\u0e00-\u0e7f]/g, languages: ['th'] },
+  { pattern: /[\u0e80-\u0eff]/g, languages: ['lo'] },
+  { pattern: /[\u0f00-\u0fff]/g, languages: ['bo'] },
+  { pattern: /[\u1000-\u109f]/g, languages: ['my'] },
+  { pattern: /[\u1200-\u139f]/g, languages: ['am'] },
+  { pattern: /[\u1780-\u17ff]/g, languages: ['km'] }
+];
+
+// Letters only one language of its script uses, for languages without a trigram profile
+const MARKER_LETTERS: Record<string, RegExp> = {
+  sd: /[\u067b\u067d\u067f\u0680\u0683\u0684\u0687\u068a\u068c\u068d\u068f\u0699\u06a6\u06aa\u06b1\u06b3\u06bb]/g,
+  ks: /[\u0620\u0672\u0673\u06c4]/g
+};
+
+// Profiles parsed into trigram ranks on first use
+const profiles = new Map<string, Map<string, number>>();
+
+/**
+ * Rank the languages a text may be written in. The script narrows the
+ * candidates; texts long enough are then compared with each language's
+ * trigram profile. Confidences of the returned candidates sum to 1.
+ */
+export function detectLanguages(text: string, options: DetectLanguageOptions = {}): LanguageCandidate[] {
+  const sample = text.slice(0, MAX_LENGTH);
+  const script = detectScript(sample);
+  if (!script) {
+    return [];
+  }
+
+  const languages = options.only
+    ? script.rule.languages.filter(language => options.only!.some(only => only.split('-')[0].toLowerCase() === language))
+    : script.rule.languages;
+  if (languages.length <= 1) {
+    return languages.map(language => ({ language, confidence: 1 }));
+  }
+
+  // Too short for trigrams to be meaningful: every language of the script is equally likely
+  if (script.letters < (options.minLength ?? DEFAULT_MIN_LENGTH)) {
+    return languages.map(language => ({ language, confidence: 1 / languages.length }));
+  }
+
+  const candidates = rankByTrigrams(sample, languages.filter(language => LANGUAGE_PROFILES[language]));
+
+  // A language's own letters outweigh the trigrams of its neighbours
+  languages.filter(language => MARKER_LETTERS[language]).forEach(language => {
+    const markers = (sample.match(MARKER_LETTERS[language]) || []).length;
+    if (markers > 0) {
+      const confidence = Math.min(1, 0.5 + (5 * markers) / script.letters);
+      candidates.forEach(candidate => {
+        candidate.confidence *= 1 - confidence;
+      });
+      candidates.unshift({ language, confidence });
+    }
+  });
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Most likely language of a text, or null when it has no letters
+ */
+export function detectLanguage(text: string, options?: DetectLanguageOptions): LanguageCandidate | null {
+  return detectLanguages(text, options)[0] || null;
+}
+
+/**
+ * The script most of a text's letters are written in
+ */
+function detectScript(text: string): { rule: ScriptRule; letters: number } | null {
+  let best: { rule: ScriptRule; letters: number } | null = null;
+  let kana: ScriptRule | null = null;
+
+  for (const rule of SCRIPTS) {
+    const letters = (text.match(rule.pattern) || []).length;
+    if (letters > 0 && rule.languages[0] === 'ja') {
+      kana = rule;
+    }
+    if (letters > 0 && (!best || letters > best.letters)) {
+      best = { rule, letters };
+    }
+  }
+
+  // Japanese mixes kanji with kana; Chinese has no kana at all
+  if (best && kana && best.rule.languages[0] === 'zh') {
+    return { rule: kana, letters: best.letters };
+  }
+  return best;
+}
+
+/**
+ * Rank languages by the out-of-place distance between the text's trigrams
+ * and each profile, turning distances into confidences with a softmax
+ */
+function rankByTrigrams(text: string, languages: string[]): LanguageCandidate[] {
+  const trigrams = getTrigrams(text);
+  if (trigrams.length === 0 || languages.length === 0) {
+    return [];
+  }
+
+  const distances = languages.map(language => {
+    const profile = getProfile(language);
+    let distance = 0;
+    trigrams.forEach((trigram, rank) => {
+      const profileRank = profile.get(trigram);
+      distance += profileRank === undefined ? MAX_DIFFERENCE : Math.abs(rank - profileRank);
+    });
+    return { language, distance };
+  });
+
+  const best = Math.min(...distances.map(({ distance }) => distance));
+  const weights = distances.map(({ language, distance }) => ({
+    language,
+    weight: Math.exp(-(distance - best) / (trigrams.length * DISTANCE_SCALE))
+  }));
+  const total = weights.reduce((sum, { weight }) => sum + weight, 0);
+
+  return weights.map(({ language, weight }) => ({ language, confidence: weight / total }));
+}
+
+/**
+ * Trigrams of the lowercased, space-padded words of a text, most frequent first
+ */
+function getTrigrams(text: string): string[] {
+  const cleaned = ` ${text.toLowerCase().replace(/[^\p{L}\p{M}]+/gu, ' ').trim()} `;
+  const counts = new Map<string, number>();
+  for (let i = 0; i < cleaned.length - 2; i++) {
+    const trigram = cleaned.slice(i, i + 3);
+    counts.set(trigram, (counts.get(trigram) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([trigram]) => trigram);
+}
+
+function getProfile(language: string): Map<string, number> {
+  let profile = profiles.get(language);
+  if (!profile) {
+    profile = new Map(LANGUAGE_PROFILES[language].split('|').map((trigram, rank) => [trigram, rank] as [string, number]));
+    profiles.set(language, profile);
+  }
+  return profile;
+}
\ No newline at end of file
@@ -0,0 +1,111 @@
+import type { LanguageSwitcher } from '../core/language-switcher';
+import { TranslationData, Unsubscribe } from '../types/types';
+
+// Stores by instance, so every hook on an instance shares one set of event handlers
+const stores = new WeakMap<LanguageSwitcher, LanguageStore>();
+
+/**
+ * Subscribable view of a LanguageSwitcher's language and translations, for
+ * `useSyncExternalStore`. Translations are versioned per section: the
+ * namespace of a key, or its first segment when it has none (`nav` for
+ * `nav.home`). A snapshot only changes when the language or a section it
+ * covers changes in the current fallback chain.
+ */
+export class LanguageStore {
+  private switcher: LanguageSwitcher;
+  private listeners = new Set<() => void>();
+  // Top-level translation values of each language, to find the sections an addition replaced
+  private sections = new Map<string, TranslationData>();
+  // Version of each `language:section`, and of each language as a whole
+  private versions = new Map<string, number>();
+
+  constructor(switcher: LanguageSwitcher) {
+    this.switcher = switcher;
+    Object.keys(switcher.translations).forEach(language => {
+      this.sections.set(language, { ...switcher.translations[language] });
+    });
+
+    // Subscribed for the instance's lifetime: changes made before a component subscribes still count
+    switcher.on('languageChanged', () => this.notify());
+    switcher.on('translationsAdded', ({ language }) => this.updateSections(language));
+  }
+
+  /**
+   * The store of an instance, created on first use
+   */
+  public static for(switcher: LanguageSwitcher): LanguageStore {
+    let store = stores.get(switcher);
+    if (!store) {
+      store = new LanguageStore(switcher);
+      stores.set(switcher, store);
+    }
+    return store;
+  }
+
+  public subscribe = (listener: () => void): Unsubscribe => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Snapshot of the current language and the given sections, or of every
+   * section when none are given. Equal snapshots render the same text.
+   */
+  public getSnapshot(sections?: string[] | null): string {
+    const chain = this.switcher.getFallbackChain();
+    const versions = chain.map(language => sections
+      ? sections.map(section => this.getVersion(`${language}:${section}`)).join('.')
+      : this.getVersion(language));
+
+    return `${this.switcher.currentLanguage}|${versions.join(',')}`;
+  }
+
+  /**
+   * Snapshot used while rendering on the server and hydrating. It is the
+   * instance's own state, so the client's instance has to start in the
+   * language the server rendered for hydration to match.
+   */
+  public getServerSnapshot(sections?: string[] | null): string {
+    return this.getSnapshot(sections);
+  }
+
+  /**
+   * Sections the given translation keys are looked up in
+   */
+  public getSections(keys: string[]): string[] {
+    const sections = new Set<string>();
+    keys.forEach(key => {
+      sections.add(this.switcher.resolveKey(key).namespace || key.split('.')[0]);
+    });
+    return Array.from(sections);
+  }
+
+  private updateSections(language: string): void {
+    const previous = this.sections.get(language) || {};
+    const current = this.switcher.translations[language] || {};
+    const changed = Object.keys(current).filter(section => current[section] !== previous[section]);
+    this.sections.set(language, { ...current });
+
+    if (changed.length === 0) {
+      return;
+    }
+
+    changed.forEach(section => this.bumpVersion(`${language}:${section}`));
+    this.bumpVersion(language);
+    this.notify();
+  }
+
+  private getVersion(id: string): number {
+    return this.versions.get(id) || 0;
+  }
+
+  private bumpVersion(id: string): void {
+    this.versions.set(id, this.getVersion(id) + 1);
+  }
+
+  private notify(): void {
+    Array.from(this.listeners).forEach(listener => listener());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,384 @@
+/**
+ * Minimal ICU MessageFormat parser and formatter.
+ *
+ * Supports simple arguments (`{name}`), `number` arguments, `plural`,
+ * `selectordinal` and `select` blocks (including `offset:` and `=N` exact
+ * matches), `#` inside plural branches, ICU apostrophe quoting, and the
+ * legacy `{{name}}` placeholders used throughout this package.
+ */
+
+export type MessageParams = Record<string, string | number>;
+
+export type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'argument'; name: string }
+  | { type: 'legacy'; name: string }
+  | { type: 'number'; name: string; style?: string }
+  | { type: 'pound' }
+  | { type: 'plural'; name: string; ordinal: boolean; offset: number; options: Record<string, MessageNode[]> }
+  | { type: 'select'; name: string; options: Record<string, MessageNode[]> };
+
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+const numberFormatCache = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Check whether a string needs to go through the MessageFormat parser at all
+ */
+export function isMessageFormat(message: string): boolean {
+  return message.includes('{') || message.includes("'");
+}
+
+/**
+ * Parse an ICU MessageFormat string into an AST
+ */
+export function parseMessage(message: string): MessageNode[] {
+  const parser = new MessageParser(message);
+  const nodes = parser.parseNodes(false);
+
+  if (!parser.isAtEnd()) {
+    throw new Error(`Unexpected '}' at position ${parser.position} in message: ${message}`);
+  }
+
+  return nodes;
+}
+
+/**
+ * Format a parsed message for a language with the given parameters
+ */
+export function formatMessage(
+  nodes: MessageNode[],
+  language: string,
+  params: MessageParams = {}
+): string {
+  return formatNodes(nodes, language, params, null);
+}
+
+function formatNodes(
+  nodes: MessageNode[],
+  language: string,
+  params: MessageParams,
+  pluralValue: number | null
+): string {
+  let result = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        result += node.value;
+        break;
+      case 'legacy':
+        result += params[node.name] !== undefined ? String(params[node.name]) : `{{${node.name}}}`;
+        break;
+      case 'argument':
+        result += params[node.name] !== undefined ? String(params[node.name]) : `{${node.name}}`;
+        break;
+      case 'number': {
+        const value = params[node.name];
+        result += value === undefined
+          ? `{${node.name}}`
+          : formatNumberValue(Number(value), language, node.style);
+        break;
+      }
+      case 'pound':
+        result += pluralValue === null ? '#' : formatNumberValue(pluralValue, language);
+        break;
+      case 'plural': {
+        const value = Number(params[node.name]);
+        if (params[node.name] === undefined || isNaN(value)) {
+          result += formatNodes(node.options.other || [], language, params, null);
+          break;
+        }
+
+        const exact = node.options[`=${value}`];
+        const adjusted = value - node.offset;
+        const branch = exact
+          || node.options[getPluralRules(language, node.ordinal).select(adjusted)]
+          || node.options.other
+          || [];
+        result += formatNodes(branch, language, params, adjusted);
+        break;
+      }
+      case 'select': {
+        const value = params[node.name];
+        const branch = (value !== undefined && node.options[String(value)]) || node.options.other || [];
+        result += formatNodes(branch, language, params, pluralValue);
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+function getPluralRules(language: string, ordinal: boolean): Intl.PluralRules {
+  const cacheKey = `${language}:${ordinal ? 'ordinal' : 'cardinal'}`;
+  let rules = pluralRulesCache.get(cacheKey);
+
+  if (!rules) {
+    const type = ordinal ? 'ordinal' : 'cardinal';
+    try {
+      rules = new Intl.PluralRules(language, { type });
+    } catch {
+      rules = new Intl.PluralRules('en', { type });
+    }
+    pluralRulesCache.set(cacheKey, rules);
+  }
+
+  return rules;
+}
+
+function formatNumberValue(value: number, language: string, style?: string): string {
+  const cacheKey = `${language}:${style || ''}`;
+  let formatter = numberFormatCache.get(cacheKey);
+
+  if (!formatter) {
+    const options: Intl.NumberFormatOptions = {};
+    if (style === 'integer') {
+      options.maximumFractionDigits = 0;
+    } else if (style === 'percent') {
+      options.style = 'percent';
+    }
+
+    try {
+      formatter = new Intl.NumberFormat(language, options);
+    } catch {
+      formatter = new Intl.NumberFormat('en', options);
+    }
+    numberFormatCache.set(cacheKey, formatter);
+  }
+
+  return formatter.format(value);
+}
+
+class MessageParser {
+  public position = 0;
+  private message: string;
+
+  constructor(message: string) {
+    this.message = message;
+  }
+
+  public isAtEnd(): boolean {
+    return this.position >= this.message.length;
+  }
+
+  /**
+   * Parse message nodes until the end of input or a closing brace
+   */
+  public parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) {
+        nodes.push({ type: 'text', value: text });
+        text = '';
+      }
+    };
+
+    while (!this.isAtEnd()) {
+      const char = this.message[this.position];
+
+      if (char === '}') {
+        break;
+      }
+
+      if (char === "'") {
+        text += this.parseQuoted(inPlural);
+        continue;
+      }
+
+      if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        this.position++;
+        continue;
+      }
+
+      if (char === '{') {
+        flushText();
+        nodes.push(this.parseArgument(inPlural));
+        continue;
+      }
+
+      text += char;
+      this.position++;
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  /**
+   * Handle ICU apostrophe quoting: `''` is a literal apostrophe, and an
+   * apostrophe before a syntax character starts a quoted literal section.
+   * Any other apostrophe is kept as-is so plain text like "don't" works.
+   */
+  private parseQuoted(inPlural: boolean): string {
+    const next = this.message[this.position + 1];
+
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+
+    if (next === '{' || next === '}' || (inPlural && next === '#')) {
+      let literal = '';
+      this.position++;
+
+      while (!this.isAtEnd()) {
+        const char = this.message[this.position];
+        if (char === "'") {
+          if (this.message[this.position + 1] === "'") {
+            literal += "'";
+            this.position += 2;
+            continue;
+          }
+          this.position++;
+          break;
+        }
+        literal += char;
+        this.position++;
+      }
+
+      return literal;
+    }
+
+    this.position++;
+    return "'";
+  }
+
+  private parseArgument(inPlural: boolean): MessageNode {
+    const start = this.position;
+    this.position++; // {
+
+    // Legacy {{name}} placeholder
+    if (this.message[this.position] === '{') {
+      const end = this.message.indexOf('}}', this.position);
+      const name = end >= 0 ? this.message.slice(this.position + 1, end) : '';
+      if (/^\w+$/.test(name)) {
+        this.position = end + 2;
+        return { type: 'legacy', name };
+      }
+      throw new Error(`Invalid placeholder at position ${start} in message: ${this.message}`);
+    }
+
+    const name = this.readIdentifier();
+    if (!name) {
+      throw new Error(`Expected argument name at position ${this.position} in message: ${this.message}`);
+    }
+
+    this.skipWhitespace();
+    const char = this.message[this.position];
+
+    if (char === '}') {
+      this.position++;
+      return { type: 'argument', name };
+    }
+
+    if (char !== ',') {
+      throw new Error(`Expected ',' or '}' at position ${this.position} in message: ${this.message}`);
+    }
+
+    this.position++;
+    this.skipWhitespace();
+    const argType = this.readIdentifier();
+    this.skipWhitespace();
+
+    switch (argType) {
+      case 'number': {
+        let style: string | undefined;
+        if (this.message[this.position] === ',') {
+          this.position++;
+          this.skipWhitespace();
+          style = this.readIdentifier();
+          this.skipWhitespace();
+        }
+        this.expect('}');
+        return { type: 'number', name, style };
+      }
+      case 'plural':
+      case 'selectordinal': {
+        this.expect(',');
+        this.skipWhitespace();
+        let offset = 0;
+        if (this.message.startsWith('offset:', this.position)) {
+          this.position += 'offset:'.length;
+          this.skipWhitespace();
+          offset = Number(this.readIdentifier());
+          if (isNaN(offset)) {
+            throw new Error(`Invalid plural offset in message: ${this.message}`);
+          }
+        }
+        const options = this.parseOptions(true);
+        return { type: 'plural', name, ordinal: argType === 'selectordinal', offset, options };
+      }
+      case 'select': {
+        this.expect(',');
+        const options = this.parseOptions(inPlural);
+        return { type: 'select', name, options };
+      }
+      default:
+        throw new Error(`Unsupported argument type '${argType}' in message: ${this.message}`);
+    }
+  }
+
+  private parseOptions(inPlural: boolean): Record<string, MessageNode[]> {
+    const options: Record<string, MessageNode[]> = {};
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.message[this.position] === '}') {
+        this.position++;
+        break;
+      }
+
+      const selector = this.readSelector();
+      if (!selector) {
+        throw new Error(`Expected selector at position ${this.position} in message: ${this.message}`);
+      }
+
+      this.skipWhitespace();
+      this.expect('{');
+      options[selector] = this.parseNodes(inPlural);
+      this.expect('}');
+    }
+
+    if (!options.other) {
+      throw new Error(`Missing 'other' option in message: ${this.message}`);
+    }
+
+    return options;
+  }
+
+  private readIdentifier(): string {
+    const match = /^[\w-]+/.exec(this.message.slice(this.position));
+    if (!match) {
+      return '';
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private readSelector(): string {
+    const match = /^=?[\w.-]+/.exec(this.message.slice(this.position));
+    if (!match) {
+      return '';
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private skipWhitespace(): void {
+    while (!this.isAtEnd() && /\s/.test(this.message[this.position])) {
+      this.position++;
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.message[this.position] !== char) {
+      throw new Error(`Expected '${char}' at position ${this.position} in message: ${this.message}`);
+    }
+    this.position++;
+  }
+}
\ No newline at end of file
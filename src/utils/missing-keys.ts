@@ -0,0 +1,191 @@
+import { MissingKeyEntry, MissingKeyReport, TranslationData } from '../types/types';
+
+export interface MissingKeyCollectorOptions {
+  onFlush?: (_entries: MissingKeyEntry[]) => void | Promise<void>;
+  flushDelay?: number;
+  debug?: boolean;
+}
+
+/**
+ * Collects missing translation keys, deduplicated per language, and
+ * optionally flushes new misses to a callback after a quiet period.
+ */
+export class MissingKeyCollector {
+  private options: MissingKeyCollectorOptions;
+  private entries = new Map<string, Map<string, MissingKeyEntry>>();
+  private unflushed: MissingKeyEntry[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: MissingKeyCollectorOptions = {}) {
+    this.options = {
+      flushDelay: 1000,
+      ...options
+    };
+  }
+
+  /**
+   * Record a missing key. Returns true the first time a key is seen for a language.
+   */
+  public add(language: string, key: string, path: string[], namespace?: string): boolean {
+    let languageEntries = this.entries.get(language);
+    if (!languageEntries) {
+      languageEntries = new Map();
+      this.entries.set(language, languageEntries);
+    }
+
+    const now = Date.now();
+    const existing = languageEntries.get(key);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = now;
+      return false;
+    }
+
+    const entry: MissingKeyEntry = {
+      language,
+      key,
+      namespace,
+      path,
+      count: 1,
+      firstSeen: now,
+      lastSeen: now
+    };
+    languageEntries.set(key, entry);
+
+    if (this.options.onFlush) {
+      this.unflushed.push(entry);
+      this.scheduleFlush();
+    }
+
+    return true;
+  }
+
+  /**
+   * Get collected entries, optionally for a single language
+   */
+  public getEntries(language?: string): MissingKeyEntry[] {
+    if (language) {
+      return Array.from(this.entries.get(language)?.values() || []);
+    }
+
+    const result: MissingKeyEntry[] = [];
+    this.entries.forEach(languageEntries => result.push(...languageEntries.values()));
+    return result;
+  }
+
+  /**
+   * Check whether a key has been recorded as missing for a language
+   */
+  public has(language: string, key: string): boolean {
+    return this.entries.get(language)?.has(key) || false;
+  }
+
+  /**
+   * Export a JSON-serialisable report grouped by language
+   */
+  public exportReport(): MissingKeyReport {
+    const languages: Record<string, MissingKeyEntry[]> = {};
+    this.entries.forEach((languageEntries, language) => {
+      languages[language] = Array.from(languageEntries.values()).map(entry => ({ ...entry }));
+    });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      total: this.getEntries().length,
+      languages
+    };
+  }
+
+  /**
+   * Export a skeleton translation tree for a language, ready to hand to translators.
+   * Values come from `getSourceText` when provided, otherwise they are empty strings.
+   */
+  public exportSkeleton(
+    language: string,
+    getSourceText?: (_entry: MissingKeyEntry) => string | undefined
+  ): TranslationData {
+    const skeleton: TranslationData = {};
+
+    this.getEntries(language).forEach(entry => {
+      let current = skeleton;
+
+      for (let i = 0; i < entry.path.length - 1; i++) {
+        const segment = entry.path[i];
+        const next = current[segment];
+        if (typeof next === 'string') {
+          return; // A shorter key already occupies this branch
+        }
+        if (!next) {
+          current[segment] = {};
+        }
+        current = current[segment] as TranslationData;
+      }
+
+      const leaf = entry.path[entry.path.length - 1];
+      if (!(leaf in current)) {
+        current[leaf] = (getSourceText && getSourceText(entry)) || '';
+      }
+    });
+
+    return skeleton;
+  }
+
+  /**
+   * Send unflushed entries to the flush callback immediately
+   */
+  public async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (!this.options.onFlush || this.unflushed.length === 0) {
+      return;
+    }
+
+    const entries = this.unflushed;
+    this.unflushed = [];
+
+    try {
+      await this.options.onFlush(entries);
+    } catch (error) {
+      if (this.options.debug) {
+        console.error('Failed to flush missing keys:', error);
+      }
+    }
+  }
+
+  /**
+   * Forget all collected entries
+   */
+  public clear(language?: string): void {
+    if (language) {
+      this.entries.delete(language);
+      this.unflushed = this.unflushed.filter(entry => entry.language !== language);
+    } else {
+      this.entries.clear();
+      this.unflushed = [];
+    }
+  }
+
+  /**
+   * Cancel any pending flush
+   */
+  public dispose(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.options.flushDelay);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * Token-bucket rate limiter. Callers `acquire()` a token before each request;
+ * tokens refill continuously at `requestsPerSecond` up to `burst`. Without a
+ * rate the limiter only enforces pauses (e.g. from HTTP 429 Retry-After).
+ */
+export class RateLimiter {
+  private requestsPerSecond: number;
+  private capacity: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: (() => void)[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(requestsPerSecond?: number, burst?: number) {
+    this.requestsPerSecond = requestsPerSecond && requestsPerSecond > 0 ? requestsPerSecond : Infinity;
+    this.capacity = burst || (isFinite(this.requestsPerSecond) ? Math.max(1, this.requestsPerSecond) : Infinity);
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Wait for a token. Waiters are served in FIFO order.
+   */
+  public acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Hold all requests for the given number of milliseconds
+   */
+  public pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.drain();
+  }
+
+  /**
+   * Number of callers waiting for a token
+   */
+  public getQueueDepth(): number {
+    return this.queue.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (isFinite(this.requestsPerSecond)) {
+      const elapsed = now - this.lastRefill;
+      this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.requestsPerSecond) / 1000);
+    }
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    const now = Date.now();
+
+    while (this.queue.length > 0 && this.tokens >= 1 && now >= this.pausedUntil) {
+      if (isFinite(this.tokens)) {
+        this.tokens--;
+      }
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const waitForToken = this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.requestsPerSecond) * 1000;
+      const wait = Math.max(this.pausedUntil - now, waitForToken);
+
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, Math.ceil(wait));
+    }
+  }
+}
+
+/**
+ * Parse an HTTP Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+/**
+ * Tags in translated strings, for rendering translations that contain
+ * markup (`Read the <link>terms</link>`, `<br/>`, `<0>…</0>`) as elements
+ * of the caller's choosing rather than as HTML.
+ */
+
+export type RichTextNode =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; name: string; selfClosing: boolean; children: RichTextNode[] };
+
+interface OpenTag {
+  name: string;
+  source: string;
+  children: RichTextNode[];
+}
+
+const TAG_PATTERN = /<(\/?)([A-Za-z0-9_][\w.-]*)\s*(\/?)>/g;
+
+// Stands in for '<' in interpolated values until tags are parsed, so values never form tags
+const ESCAPED_BRACKET = '\ue000';
+
+/**
+ * Parse a translated string into text and tags. Anything that is not a
+ * well-formed tag, such as `a < b` or a closing tag without its opening
+ * one, stays text.
+ */
+export function parseRichText(text: string): RichTextNode[] {
+  const root: OpenTag = { name: '', source: '', children: [] };
+  const stack = [root];
+  const pattern = new RegExp(TAG_PATTERN.source, 'g');
+  let position = 0;
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const [source, closing, name, selfClosing] = match;
+    const current = stack[stack.length - 1];
+    pushText(current.children, text.slice(position, match.index));
+    position = match.index + source.length;
+
+    if (closing) {
+      if (stack.length > 1 && current.name === name) {
+        stack.pop();
+        stack[stack.length - 1].children.push({ type: 'tag', name, selfClosing: false, children: current.children });
+      } else {
+        pushText(current.children, source);
+      }
+    } else if (selfClosing) {
+      current.children.push({ type: 'tag', name, selfClosing: true, children: [] });
+    } else {
+      stack.push({ name, source, children: [] });
+    }
+  }
+  pushText(stack[stack.length - 1].children, text.slice(position));
+
+  // Tags never closed are text, with their content in place
+  while (stack.length > 1) {
+    const unclosed = stack.pop()!;
+    const parent = stack[stack.length - 1].children;
+    pushText(parent, unclosed.source);
+    unclosed.children.forEach(child => {
+      if (child.type === 'text') {
+        pushText(parent, child.value);
+      } else {
+        parent.push(child);
+      }
+    });
+  }
+
+  return unescapeNodes(root.children);
+}
+
+/**
+ * Escape interpolation values so that tags in them are rendered as text
+ */
+export function escapeRichTextValues(values: Record<string, string | number>): Record<string, string | number> {
+  const escaped: Record<string, string | number> = {};
+  Object.keys(values).forEach(name => {
+    const value = values[name];
+    escaped[name] = typeof value === 'string' ? value.replace(/</g, ESCAPED_BRACKET) : value;
+  });
+  return escaped;
+}
+
+function pushText(nodes: RichTextNode[], value: string): void {
+  if (!value) {
+    return;
+  }
+
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') {
+    last.value += value;
+  } else {
+    nodes.push({ type: 'text', value });
+  }
+}
+
+function unescapeNodes(nodes: RichTextNode[]): RichTextNode[] {
+  return nodes.map(node => node.type === 'text'
+    ? { type: 'text', value: node.value.split(ESCAPED_BRACKET).join('<') }
+    : { ...node, children: unescapeNodes(node.children) });
+}
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { TranslationApiConfig } from '../types/types';
+
+export interface MaskedText {
+  text: string;
+  // Text to put back for each placeholder, by index
+  replacements: string[];
+}
+
+interface ProtectionRule {
+  pattern: RegExp;
+  // Target-language replacement for glossary terms; protected spans are kept as they are
+  replacement?: string;
+}
+
+interface ProtectedSpan {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+// Protected automatically unless `autoProtect` is false
+const DEFAULT_PATTERNS = [
+  /\{\{[^{}]*\}\}/g,
+  /\b(?:https?:\/\/|www\.)[^\s<>"']*[^\s<>"'.,;:!?)\]]/gi,
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  /(?<![\p{L}\p{N}_])\d+(?:[.,:]\d+)*(?![\p{L}\p{N}_])/gu
+];
+
+// Brackets machine translation engines leave alone
+const PLACEHOLDER_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+
+/**
+ * Masks glossary terms, protected terms and patterns with numbered
+ * placeholders before text is sent for translation, and puts the original
+ * span (or the glossary's target term) back into the translation.
+ */
+export class TermProtector {
+  private config: TranslationApiConfig;
+  private rules = new Map<string, ProtectionRule[]>();
+
+  constructor(config: TranslationApiConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Replace protected spans with placeholders. Glossary terms for the pair are
+   * only masked when `includeGlossary` is set, i.e. no native glossary applies.
+   */
+  public mask(text: string, fromLanguage: string, toLanguage: string, includeGlossary = true): MaskedText {
+    const spans: ProtectedSpan[] = [];
+
+    this.getRules(fromLanguage, toLanguage, includeGlossary).forEach(rule => {
+      rule.pattern.lastIndex = 0;
+      for (let match = rule.pattern.exec(text); match; match = rule.pattern.exec(text)) {
+        if (match[0].length === 0) {
+          rule.pattern.lastIndex++;
+          continue;
+        }
+        spans.push({
+          start: match.index,
+          end: match.index + match[0].length,
+          replacement: rule.replacement ?? match[0]
+        });
+      }
+    });
+
+    // Earliest span wins, then the longest one starting there
+    spans.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const replacements: string[] = [];
+    let masked = '';
+    let position = 0;
+    spans.forEach(span => {
+      if (span.start < position) {
+        return;
+      }
+      masked += `${text.slice(position, span.start)}⟦${replacements.length}⟧`;
+      replacements.push(span.replacement);
+      position = span.end;
+    });
+
+    return { text: masked + text.slice(position), replacements };
+  }
+
+  /**
+   * Put masked spans back into a translation. Placeholders the provider dropped stay dropped.
+   */
+  public unmask(text: string, replacements: string[]): string {
+    if (replacements.length === 0) {
+      return text;
+    }
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder, index: string) => replacements[Number(index)] ?? placeholder);
+  }
+
+  private getRules(fromLanguage: string, toLanguage: string, includeGlossary: boolean): ProtectionRule[] {
+    const key = `${fromLanguage}:${toLanguage}:${includeGlossary}`;
+    let rules = this.rules.get(key);
+    if (!rules) {
+      rules = [];
+
+      const glossary = includeGlossary ? findLanguagePairEntry(this.config.glossary, fromLanguage, toLanguage) : undefined;
+      if (glossary) {
+        // Longer terms first so "Pro Plan" is not masked as "Pro"
+        Object.keys(glossary).sort((a, b) => b.length - a.length).forEach(term => {
+          rules!.push({ pattern: createTermPattern(term), replacement: glossary[term] });
+        });
+      }
+
+      (this.config.protectedTerms || []).forEach(term => {
+        rules!.push({ pattern: createTermPattern(term) });
+      });
+      (this.config.protectedPatterns || []).forEach(pattern => {
+        rules!.push({ pattern: new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`) });
+      });
+      if (this.config.autoProtect !== false) {
+        DEFAULT_PATTERNS.forEach(pattern => rules!.push({ pattern: new RegExp(pattern.source, pattern.flags) }));
+      }
+
+      this.rules.set(key, rules);
+    }
+    return rules;
+  }
+}
+
+/**
+ * Look up a "from:to" keyed entry, falling back to primary subtags and then "*:to"
+ */
+export function findLanguagePairEntry<T>(
+  entries: Record<string, T> | undefined,
+  fromLanguage: string,
+  toLanguage: string
+): T | undefined {
+  if (!entries) {
+    return undefined;
+  }
+
+  const from = fromLanguage.toLowerCase();
+  const to = toLanguage.toLowerCase();
+  const keys = [
+    `${from}:${to}`,
+    `${from.split('-')[0]}:${to.split('-')[0]}`,
+    `*:${to}`,
+    `*:${to.split('-')[0]}`
+  ];
+
+  for (const key of keys) {
+    const match = Object.keys(entries).find(entry => entry.toLowerCase() === key);
+    if (match) {
+      return entries[match];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Case-sensitive pattern for a literal term that does not match inside longer words
+ */
+function createTermPattern(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const before = /^[\p{L}\p{N}_]/u.test(term) ? '(?<![\\p{L}\\p{N}_])' : '';
+  const after = /[\p{L}\p{N}_]$/u.test(term) ? '(?![\\p{L}\\p{N}_])' : '';
+  return new RegExp(`${before}${escaped}${after}`, 'gu');
+}
\ No newline at end of file
@@ -0,0 +1,359 @@
+import {
+  TranslationResponse,
+  TranslationCacheOptions,
+  TranslationCacheStore,
+  TranslationCacheEntry,
+  TranslationCacheStats,
+  TranslationCacheFilter
+} from '../types/types';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Two-level machine translation cache: an in-memory LRU in front of an
+ * optional persistent store, both capped at `maxEntries`. Keys combine
+ * provider, language pair, a hash of the normalised source text and a
+ * variant for the request settings (format, glossaries) that shape the result.
+ */
+export class TranslationCache {
+  private options: TranslationCacheOptions;
+  private memory = new Map<string, TranslationCacheEntry>();
+  // Keys in the persistent store, least recently used first; listed on first write
+  private storedKeys: Promise<Set<string>> | null = null;
+  private stats = { hits: 0, misses: 0, memoryHits: 0, persistentHits: 0 };
+
+  constructor(options: TranslationCacheOptions = {}) {
+    this.options = {
+      maxEntries: DEFAULT_MAX_ENTRIES,
+      ...options
+    };
+  }
+
+  /**
+   * Build the cache key for a translation
+   */
+  public static createKey(
+    provider: string,
+    fromLanguage: string,
+    toLanguage: string,
+    text: string,
+    variant?: string
+  ): string {
+    const parts = [provider, fromLanguage, toLanguage, hashText(normalizeText(text))];
+    return (variant ? [...parts, variant] : parts).join('|');
+  }
+
+  /**
+   * Look up a translation, trying each of the given providers in order
+   */
+  public async get(
+    provider: string | string[],
+    fromLanguage: string,
+    toLanguage: string,
+    text: string,
+    variant?: string
+  ): Promise<TranslationResponse | undefined> {
+    const keys = (Array.isArray(provider) ? provider : [provider])
+      .map(name => TranslationCache.createKey(name, fromLanguage, toLanguage, text, variant));
+
+    for (const key of keys) {
+      const cached = this.memory.get(key);
+      if (cached && !this.isExpired(cached)) {
+        // Refresh LRU position
+        this.memory.delete(key);
+        this.memory.set(key, cached);
+        this.stats.hits++;
+        this.stats.memoryHits++;
+        return cached.response;
+      }
+      if (cached) {
+        this.memory.delete(key);
+      }
+    }
+
+    if (this.options.store) {
+      try {
+        for (const key of keys) {
+          const stored = await this.options.store.get(key);
+          if (stored && !this.isExpired(stored)) {
+            this.setMemory(key, stored);
+            await this.touchStored(key);
+            this.stats.hits++;
+            this.stats.persistentHits++;
+            return stored.response;
+          }
+          if (stored) {
+            await this.deleteStored(key);
+          }
+        }
+      } catch {
+        // A broken persistent store only costs us cache hits
+      }
+    }
+
+    this.stats.misses++;
+    return undefined;
+  }
+
+  public async set(
+    provider: string,
+    fromLanguage: string,
+    toLanguage: string,
+    text: string,
+    response: TranslationResponse,
+    variant?: string
+  ): Promise<void> {
+    const key = TranslationCache.createKey(provider, fromLanguage, toLanguage, text, variant);
+    const now = Date.now();
+    const entry: TranslationCacheEntry = {
+      response,
+      createdAt: now,
+      expiresAt: this.options.ttl ? now + this.options.ttl : undefined
+    };
+
+    this.setMemory(key, entry);
+
+    if (this.options.store) {
+      try {
+        await this.options.store.set(key, entry);
+        await this.touchStored(key);
+        await this.evictStored();
+      } catch {
+        // Ignore quota and availability errors from the persistent store
+      }
+    }
+  }
+
+  /**
+   * Remove cached translations matching a filter. Without a filter, everything is removed.
+   */
+  public async invalidate(filter: TranslationCacheFilter = {}): Promise<void> {
+    const textHash = filter.text !== undefined ? hashText(normalizeText(filter.text)) : undefined;
+    const matches = (key: string) => {
+      const [provider, fromLanguage, toLanguage, hash] = key.split('|');
+      return (!filter.provider || filter.provider === provider)
+        && (!filter.fromLanguage || filter.fromLanguage === fromLanguage)
+        && (!filter.toLanguage || filter.toLanguage === toLanguage)
+        && (textHash === undefined || textHash === hash);
+    };
+
+    Array.from(this.memory.keys()).filter(matches).forEach(key => this.memory.delete(key));
+
+    if (this.options.store) {
+      const keys = await this.options.store.keys();
+      await Promise.all(keys.filter(matches).map(key => this.deleteStored(key)));
+    }
+  }
+
+  /**
+   * Remove every cached translation
+   */
+  public async clear(): Promise<void> {
+    this.memory.clear();
+    if (this.options.store) {
+      this.storedKeys = null;
+      await this.options.store.clear();
+    }
+  }
+
+  public getStats(): TranslationCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      size: this.memory.size,
+      hitRate: lookups > 0 ? this.stats.hits / lookups : 0
+    };
+  }
+
+  private setMemory(key: string, entry: TranslationCacheEntry): void {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+
+    // Evict least recently used entries beyond the size cap
+    while (this.memory.size > this.options.maxEntries!) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private getStoredKeys(): Promise<Set<string>> {
+    if (!this.storedKeys) {
+      this.storedKeys = this.options.store!.keys().then(keys => new Set(keys));
+      // Retry listing on the next write if the store failed
+      this.storedKeys.catch(() => {
+        this.storedKeys = null;
+      });
+    }
+    return this.storedKeys;
+  }
+
+  /**
+   * Mark a stored entry as the most recently used
+   */
+  private async touchStored(key: string): Promise<void> {
+    const keys = await this.getStoredKeys();
+    keys.delete(key);
+    keys.add(key);
+  }
+
+  private async deleteStored(key: string): Promise<void> {
+    await this.options.store!.delete(key);
+    if (this.storedKeys) {
+      (await this.storedKeys).delete(key);
+    }
+  }
+
+  /**
+   * Remove least recently used entries beyond the size cap from the persistent store
+   */
+  private async evictStored(): Promise<void> {
+    const keys = await this.getStoredKeys();
+    const evicted = Array.from(keys).slice(0, Math.max(0, keys.size - this.options.maxEntries!));
+    evicted.forEach(key => keys.delete(key));
+    await Promise.all(evicted.map(key => this.options.store!.delete(key)));
+  }
+
+  private isExpired(entry: TranslationCacheEntry): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+  }
+}
+
+/**
+ * Persistent cache store backed by localStorage
+ */
+export class LocalStorageCacheStore implements TranslationCacheStore {
+  private prefix: string;
+
+  constructor(prefix = 'dls-translation:') {
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<TranslationCacheEntry | undefined> {
+    const value = this.getStorage()?.getItem(this.prefix + key);
+    return value ? JSON.parse(value) : undefined;
+  }
+
+  async set(key: string, entry: TranslationCacheEntry): Promise<void> {
+    this.getStorage()?.setItem(this.prefix + key, JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.getStorage()?.removeItem(this.prefix + key);
+  }
+
+  async keys(): Promise<string[]> {
+    const storage = this.getStorage();
+    if (!storage) {
+      return [];
+    }
+
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key && key.startsWith(this.prefix)) {
+        keys.push(key.slice(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.keys();
+    keys.forEach(key => this.getStorage()?.removeItem(this.prefix + key));
+  }
+
+  private getStorage(): Storage | null {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+  }
+}
+
+/**
+ * Persistent cache store backed by IndexedDB
+ */
+export class IndexedDBCacheStore implements TranslationCacheStore {
+  private dbName: string;
+  private storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'dynamic-language-switcher', storeName = 'translations') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  async get(key: string): Promise<TranslationCacheEntry | undefined> {
+    return this.run('readonly', store => store.get(key));
+  }
+
+  async set(key: string, entry: TranslationCacheEntry): Promise<void> {
+    await this.run('readwrite', store => store.put(entry, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run('readonly', store => store.getAllKeys());
+    return (keys || []).map(key => String(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(mode: 'readonly' | 'readwrite', operation: (_store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Normalise text so insignificant whitespace differences share a cache entry
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fast non-cryptographic 53-bit string hash (cyrb53), as a hex string
+ */
+export function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
\ No newline at end of file
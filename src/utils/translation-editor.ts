@@ -0,0 +1,267 @@
+import type { LanguageSwitcher } from '../core/language-switcher';
+import {
+  DetectedContent,
+  TranslationEditorOptions,
+  TranslationEditorChange,
+  JsonPatchOperation
+} from '../types/types';
+
+export interface TranslationEditorConfig extends TranslationEditorOptions {
+  // Language key-bound source texts are shown in
+  sourceLanguage: string;
+  // Location of a key within a language's translations
+  getKeyPath: (_key: string) => string[];
+}
+
+interface EditorEntry {
+  label: string;
+  source?: string;
+  value: string;
+  save: (_value: string) => void;
+}
+
+const HIGHLIGHT_SELECTOR = '[data-translated="true"], [data-i18n-key]';
+const EDITOR_CLASS = 'dls-editor';
+const DEFAULT_HIGHLIGHT_COLOR = '#f59e0b';
+
+/**
+ * In-context translation editor. Highlights translated and `data-i18n-key`
+ * elements, shows their source on hover, and opens an inline form on click.
+ * Key edits go through `setTranslation`, auto-translated text becomes a
+ * translation override; both are recorded for export as a JSON patch.
+ */
+export class TranslationEditor {
+  private switcher: LanguageSwitcher;
+  private config: TranslationEditorConfig;
+  private changes = new Map<string, TranslationEditorChange>();
+  private style: HTMLStyleElement | null = null;
+  private tooltip: HTMLElement | null = null;
+  private panel: HTMLElement | null = null;
+
+  constructor(switcher: LanguageSwitcher, config: TranslationEditorConfig) {
+    this.switcher = switcher;
+    this.config = config;
+  }
+
+  public enable(): void {
+    if (this.style) return;
+
+    const color = this.config.highlightColor || DEFAULT_HIGHLIGHT_COLOR;
+    this.style = document.createElement('style');
+    this.style.textContent = [
+      `.${EDITOR_CLASS} [data-translated="true"], .${EDITOR_CLASS} [data-i18n-key] { outline: 1px dashed ${color}; outline-offset: 2px; cursor: pointer; }`,
+      `.${EDITOR_CLASS}-ui { position: fixed; z-index: 2147483647; max-width: 360px; padding: 8px; border-radius: 4px; font: 12px/1.4 sans-serif; background: #111827; color: #f9fafb; box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3); }`,
+      `.${EDITOR_CLASS}-ui textarea { display: block; width: 100%; margin: 4px 0 8px; font: inherit; }`
+    ].join('\n');
+    document.head.appendChild(this.style);
+    document.documentElement.classList.add(EDITOR_CLASS);
+
+    document.addEventListener('mouseover', this.handleMouseOver, true);
+    document.addEventListener('click', this.handleClick, true);
+  }
+
+  public disable(): void {
+    document.removeEventListener('mouseover', this.handleMouseOver, true);
+    document.removeEventListener('click', this.handleClick, true);
+    document.documentElement.classList.remove(EDITOR_CLASS);
+
+    [this.style, this.tooltip, this.panel].forEach(element => element?.remove());
+    this.style = null;
+    this.tooltip = null;
+    this.panel = null;
+  }
+
+  public getChanges(): TranslationEditorChange[] {
+    return Array.from(this.changes.values());
+  }
+
+  public clearChanges(): void {
+    this.changes.clear();
+  }
+
+  /**
+   * Recorded edits as RFC 6902 operations against `{ translations, overrides }`
+   */
+  public exportPatch(): JsonPatchOperation[] {
+    return this.getChanges().map(change => {
+      if (change.key) {
+        return {
+          op: 'add',
+          path: ['', 'translations', change.language, ...this.config.getKeyPath(change.key)].map(escapePointer).join('/'),
+          value: change.value
+        };
+      }
+
+      return {
+        op: 'add',
+        path: '/overrides/-',
+        value: { source: change.source, language: change.language, translation: change.value }
+      };
+    });
+  }
+
+  private handleMouseOver = (event: Event): void => {
+    const element = this.getEditableElement(event.target);
+    if (!element) {
+      this.tooltip?.remove();
+      this.tooltip = null;
+      return;
+    }
+
+    const lines = this.getEntries(element).map(entry => [
+      entry.label,
+      entry.source !== undefined ? `Source: ${entry.source}` : ''
+    ].filter(Boolean).join('\n'));
+
+    if (!this.tooltip) {
+      this.tooltip = this.createUi();
+      this.tooltip.style.pointerEvents = 'none';
+      this.tooltip.style.whiteSpace = 'pre-wrap';
+    }
+    this.tooltip.textContent = lines.join('\n\n');
+    this.position(this.tooltip, element);
+  };
+
+  private handleClick = (event: Event): void => {
+    const element = this.getEditableElement(event.target);
+    if (!element) return;
+
+    // Clicks on highlighted content edit it instead of following links or buttons
+    event.preventDefault();
+    event.stopPropagation();
+    this.openPanel(element);
+  };
+
+  private openPanel(element: HTMLElement): void {
+    this.panel?.remove();
+    this.tooltip?.remove();
+    this.tooltip = null;
+
+    const panel = this.createUi();
+    const fields = this.getEntries(element).map(entry => {
+      const label = document.createElement('label');
+      label.textContent = entry.source !== undefined ? `${entry.label} — ${entry.source}` : entry.label;
+      const textarea = document.createElement('textarea');
+      textarea.value = entry.value;
+      label.appendChild(textarea);
+      panel.appendChild(label);
+      return { entry, textarea };
+    });
+
+    const save = document.createElement('button');
+    save.type = 'button';
+    save.textContent = 'Save';
+    save.addEventListener('click', () => {
+      fields.forEach(({ entry, textarea }) => {
+        if (textarea.value !== entry.value) {
+          entry.save(textarea.value);
+        }
+      });
+      this.closePanel();
+    });
+
+    const cancel = document.createElement('button');
+    cancel.type = 'button';
+    cancel.textContent = 'Cancel';
+    cancel.addEventListener('click', () => this.closePanel());
+
+    panel.append(save, ' ', cancel);
+    this.panel = panel;
+    this.position(panel, element);
+    fields[0]?.textarea.focus();
+  }
+
+  private closePanel(): void {
+    this.panel?.remove();
+    this.panel = null;
+  }
+
+  /**
+   * Editable texts of an element: its translation key, then its auto-translated text nodes and attributes
+   */
+  private getEntries(element: HTMLElement): EditorEntry[] {
+    const language = this.switcher.currentLanguage;
+    const entries: EditorEntry[] = [];
+
+    const key = element.getAttribute('data-i18n-key');
+    if (key) {
+      const resolution = this.switcher.resolveKey(key);
+      entries.push({
+        label: `Key: ${key}${resolution.resolvedLanguage ? ` (${resolution.resolvedLanguage})` : ''}`,
+        source: this.switcher.resolveKey(key, this.config.sourceLanguage).value,
+        value: resolution.value || '',
+        save: value => {
+          // Components bound to the key re-render from the store's translationsAdded notification
+          this.switcher.setTranslation(key, value, language);
+          this.record({ key, language, value });
+        }
+      });
+    }
+
+    this.switcher.getDetectedContent()
+      .filter(content => content.element === element && content.isTranslated)
+      .forEach(content => {
+        entries.push({
+          label: this.describe(content),
+          source: content.originalText,
+          value: content.translatedText || '',
+          save: value => {
+            this.switcher.getTranslationOverrides().set({ source: content.originalText, language, translation: value });
+            this.record({ source: content.originalText, language, value });
+          }
+        });
+      });
+
+    return entries;
+  }
+
+  private describe(content: DetectedContent): string {
+    const details = this.switcher.getTranslationDetails(content);
+    const target = content.attribute ? `[${content.attribute}]` : 'Text';
+    if (!details) {
+      return target;
+    }
+    if (details.origin === 'human') {
+      return `${target} · human override`;
+    }
+
+    const confidence = details.confidence !== undefined ? ` · confidence ${Math.round(details.confidence * 100)}%` : '';
+    return `${target} · ${details.provider || 'machine'}${confidence}`;
+  }
+
+  private record(change: TranslationEditorChange): void {
+    const id = change.key ? `${change.language}|key|${change.key}` : `${change.language}|source|${change.source}`;
+    this.changes.delete(id);
+    this.changes.set(id, change);
+    this.config.onChange?.(this.getChanges());
+  }
+
+  private getEditableElement(target: EventTarget | null): HTMLElement | null {
+    if (!(target instanceof Element) || target.closest(`.${EDITOR_CLASS}-ui`)) {
+      return null;
+    }
+    return target.closest<HTMLElement>(HIGHLIGHT_SELECTOR);
+  }
+
+  private createUi(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = `${EDITOR_CLASS}-ui`;
+    // Keep the editor's own text out of content detection
+    element.setAttribute('data-no-translate', '');
+    document.body.appendChild(element);
+    return element;
+  }
+
+  private position(ui: HTMLElement, anchor: HTMLElement): void {
+    const rect = anchor.getBoundingClientRect();
+    ui.style.top = `${Math.round(rect.bottom + 4)}px`;
+    ui.style.left = `${Math.round(Math.max(0, rect.left))}px`;
+  }
+}
+
+/**
+ * Escape a JSON Pointer reference token (RFC 6901)
+ */
+function escapePointer(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { TranslationOverride, TranslationOverrideContext } from '../types/types';
+import { normalizeText, hashText } from './translation-cache';
+
+export interface TranslationOverridesOptions {
+  // Called with the overrides added, replaced or removed by each change
+  onChange?: (_overrides: TranslationOverride[]) => void;
+}
+
+/**
+ * Human-reviewed translations keyed by target language and a hash of the
+ * normalised source text, consulted before machine translation.
+ */
+export class TranslationOverrides {
+  private options: TranslationOverridesOptions;
+  private entries = new Map<string, TranslationOverride[]>();
+
+  constructor(overrides: TranslationOverride[] = [], options: TranslationOverridesOptions = {}) {
+    this.options = options;
+    overrides.forEach(override => this.add(override));
+  }
+
+  /**
+   * Build the lookup key for a source text and target language
+   */
+  public static createKey(source: string, language: string): string {
+    return [language.toLowerCase(), hashText(normalizeText(source))].join('|');
+  }
+
+  /**
+   * Add overrides from a JSON string or an array, replacing overrides with the same scope
+   */
+  public load(data: string | TranslationOverride[]): void {
+    const overrides: TranslationOverride[] = typeof data === 'string' ? JSON.parse(data) : data;
+    if (!Array.isArray(overrides)) {
+      throw new Error('Translation overrides must be an array');
+    }
+
+    overrides.forEach(override => this.add(override));
+    this.notify(overrides);
+  }
+
+  /**
+   * Add or replace a single override
+   */
+  public set(override: TranslationOverride): void {
+    this.add(override);
+    this.notify([override]);
+  }
+
+  /**
+   * Remove the override for a source text, language and scope. Returns whether one was removed.
+   */
+  public remove(source: string, language: string, scope: { selector?: string; route?: string } = {}): boolean {
+    const key = TranslationOverrides.createKey(source, language);
+    const overrides = this.entries.get(key) || [];
+    const index = overrides.findIndex(override => isSameScope(override, scope));
+    if (index === -1) {
+      return false;
+    }
+
+    const [removed] = overrides.splice(index, 1);
+    if (overrides.length === 0) {
+      this.entries.delete(key);
+    }
+    this.notify([removed]);
+    return true;
+  }
+
+  /**
+   * Find the most specific override for a text, trying the full language code
+   * before its primary subtag
+   */
+  public get(source: string, language: string, context: TranslationOverrideContext = {}): TranslationOverride | undefined {
+    const languages = [language, language.split('-')[0]];
+
+    for (const candidate of languages) {
+      let best: TranslationOverride | undefined;
+      let bestScore = -1;
+
+      (this.entries.get(TranslationOverrides.createKey(source, candidate)) || []).forEach(override => {
+        const score = getScopeScore(override, context);
+        if (score > bestScore) {
+          best = override;
+          bestScore = score;
+        }
+      });
+
+      if (best) {
+        return best;
+      }
+    }
+    return undefined;
+  }
+
+  public getAll(): TranslationOverride[] {
+    const all: TranslationOverride[] = [];
+    this.entries.forEach(overrides => all.push(...overrides));
+    return all;
+  }
+
+  public size(): number {
+    return this.getAll().length;
+  }
+
+  public clear(): void {
+    const removed = this.getAll();
+    this.entries.clear();
+    if (removed.length > 0) {
+      this.notify(removed);
+    }
+  }
+
+  /**
+   * Serialisable form, loadable again with `load()`
+   */
+  public toJSON(): TranslationOverride[] {
+    return this.getAll().map(override => ({ ...override }));
+  }
+
+  private add(override: TranslationOverride): void {
+    const key = TranslationOverrides.createKey(override.source, override.language);
+    const overrides = (this.entries.get(key) || []).filter(existing => !isSameScope(existing, override));
+    overrides.push({ ...override });
+    this.entries.set(key, overrides);
+  }
+
+  private notify(overrides: TranslationOverride[]): void {
+    if (this.options.onChange && overrides.length > 0) {
+      this.options.onChange(overrides);
+    }
+  }
+}
+
+function isSameScope(a: { selector?: string; route?: string }, b: { selector?: string; route?: string }): boolean {
+  return (a.selector || '') === (b.selector || '') && (a.route || '') === (b.route || '');
+}
+
+/**
+ * How specifically an override matches a context: -1 when it does not apply,
+ * otherwise selector matches outrank route matches, which outrank unscoped overrides
+ */
+function getScopeScore(override: TranslationOverride, context: TranslationOverrideContext): number {
+  let score = 0;
+
+  if (override.selector) {
+    if (!context.element || !context.element.closest(override.selector)) {
+      return -1;
+    }
+    score += 2;
+  }
+
+  if (override.route) {
+    if (context.route === undefined || !matchesRoute(override.route, context.route)) {
+      return -1;
+    }
+    score += 1;
+  }
+
+  return score;
+}
+
+function matchesRoute(pattern: string, route: string): boolean {
+  return pattern.endsWith('*') ? route.startsWith(pattern.slice(0, -1)) : route === pattern;
+}
\ No newline at end of file
@@ -2,265 +2,501 @@ import {
   TranslationService as ITranslationService, 
   TranslationRequest, 
   TranslationResponse, 
-  TranslationApiConfig 
+  TranslationApiConfig,
+  TranslationServiceEvents,
+  TranslationCacheFilter,
+  TranslationCacheStats,
+  TranslationProvider,
+  TranslationProviderLimits,
+  TranslationFormat,
+  LanguageCandidate,
+  EventHandler,
+  Unsubscribe
 } from '../types/types';
+import { RateLimiter, parseRetryAfter } from './rate-limiter';
+import { EventEmitter } from './event-emitter';
+import { TranslationCache, hashText } from './translation-cache';
+import { TermProtector } from './term-protection';
+import { detectLanguage, detectLanguages, DetectLanguageOptions } from './language-detector';
+import { createTranslationProvider, TranslationApiError } from '../providers';
+
+export { TranslationApiError };
+
+interface TranslationChunk {
+  texts: string[];
+  fromLanguage: string;
+  toLanguage: string;
+  format?: TranslationFormat;
+}
+
+type ConcurrencyLimit = <T>(_task: () => Promise<T>) => Promise<T>;
+
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500;
+const DEFAULT_MAX_RETRY_DELAY = 10000;
+
+// Used when a provider does not declare its own payload limits
+const BATCH_LIMITS: TranslationProviderLimits = { maxTexts: Infinity, maxBytes: Infinity };
+const SINGLE_TEXT_LIMITS: TranslationProviderLimits = { maxTexts: 1, maxBytes: Infinity };
 
 export class TranslationService implements ITranslationService {
   private config: TranslationApiConfig;
-  private rateLimitDelay = 0;
+  private provider: TranslationProvider;
+  private rateLimiter: RateLimiter;
+  private fallback: TranslationService | null;
+  private cache: TranslationCache | null;
+  // Hash of the glossary and protection settings of every provider, part of each cache key
+  private termSettings: string;
+  private termProtector: TermProtector;
+  private events = new EventEmitter<TranslationServiceEvents>();
+
+  /**
+   * Accepts a single provider config or an ordered list; later entries are
+   * used only when every retry against the earlier ones has failed.
+   */
+  constructor(config: TranslationApiConfig | TranslationApiConfig[]) {
+    const [primary, ...fallbacks] = Array.isArray(config) ? config : [config];
+    if (!primary) {
+      throw new Error('At least one translation provider must be configured');
+    }
+
+    this.config = primary;
+    this.rateLimiter = new RateLimiter(primary.rateLimit);
+    this.provider = createTranslationProvider(primary, {
+      request: (url, init) => this.request(url, init)
+    });
+    this.cache = primary.cache
+      ? new TranslationCache(primary.cache === true ? {} : primary.cache)
+      : null;
+    this.termProtector = new TermProtector(primary);
+
+    // Only the primary service caches; fallbacks are reached through it and
+    // protect the same terms unless configured otherwise
+    this.fallback = fallbacks.length > 0
+      ? new TranslationService(fallbacks.map(fallback => ({
+        glossary: primary.glossary,
+        protectedTerms: primary.protectedTerms,
+        protectedPatterns: primary.protectedPatterns,
+        autoProtect: primary.autoProtect,
+        ...fallback,
+        cache: undefined
+      })))
+      : null;
+    this.termSettings = hashText(JSON.stringify(this.getTermSettings()));
+  }
 
-  constructor(config: TranslationApiConfig) {
-    this.config = config;
+  /**
+   * Subscribe to service events. Returns a function that removes the handler.
+   */
+  on<K extends keyof TranslationServiceEvents>(
+    event: K,
+    handler: EventHandler<TranslationServiceEvents[K]>
+  ): Unsubscribe {
+    return this.events.on(event, handler);
   }
 
   async translate(request: TranslationRequest): Promise<TranslationResponse> {
-    await this.handleRateLimit();
-    
-    switch (this.config.provider) {
-      case 'deepl':
-        return this.translateWithDeepL(request);
-      case 'google-cloud':
-        return this.translateWithGoogleCloud(request);
-      case 'custom':
-        return this.translateWithCustom(request);
-      default:
-        throw new Error(`Unsupported translation provider: ${this.config.provider}`);
+    const cached = await this.getCached(request.text, request.fromLanguage, request.toLanguage, request.format);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await this.translateWithFailover(request);
+      await this.setCached(request.text, request.fromLanguage, request.toLanguage, request.format, response);
+      return response;
+    } catch (error) {
+      this.events.emit('translationFailed', {
+        error,
+        texts: [request.text],
+        fromLanguage: request.fromLanguage,
+        toLanguage: request.toLanguage,
+        providers: this.getProviders()
+      });
+      throw error;
     }
   }
 
+  /**
+   * Translate many texts at once. Identical texts are only sent once, requests are
+   * grouped by language pair and format and chunked by `batchSize` and the provider's
+   * payload limits, and chunks are sent with bounded concurrency.
+   */
   async translateBatch(requests: TranslationRequest[]): Promise<TranslationResponse[]> {
-    const responses: TranslationResponse[] = [];
-    
-    for (const request of requests) {
-      try {
-        const response = await this.translate(request);
-        responses.push(response);
-      } catch (error) {
-        // Fallback to original text on error
-        responses.push({
-          translatedText: request.text,
-          confidence: 0,
-          detectedLanguage: request.fromLanguage
-        });
+    const responses: TranslationResponse[] = new Array(requests.length);
+    const groups = new Map<string, {
+      fromLanguage: string;
+      toLanguage: string;
+      format?: TranslationFormat;
+      indexes: Map<string, number[]>;
+    }>();
+
+    requests.forEach((request, index) => {
+      const groupKey = `${request.fromLanguage}:${request.toLanguage}:${request.format || ''}`;
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = {
+          fromLanguage: request.fromLanguage,
+          toLanguage: request.toLanguage,
+          format: request.format,
+          indexes: new Map()
+        };
+        groups.set(groupKey, group);
       }
-    }
-    
+
+      const indexes = group.indexes.get(request.text);
+      if (indexes) {
+        indexes.push(index);
+      } else {
+        group.indexes.set(request.text, [index]);
+      }
+    });
+
+    // Serve what we can from the cache; only misses are sent to the provider
+    const pendingGroups = await Promise.all(Array.from(groups.values()).map(async group => {
+      const misses: string[] = [];
+
+      await Promise.all(Array.from(group.indexes.keys()).map(async text => {
+        const cached = await this.getCached(text, group.fromLanguage, group.toLanguage, group.format);
+        if (cached) {
+          group.indexes.get(text)!.forEach(index => {
+            responses[index] = cached;
+          });
+        } else {
+          misses.push(text);
+        }
+      }));
+
+      return { group, misses };
+    }));
+
+    // One limit for every provider request of this batch, including fallback sub-chunks
+    const limit = createConcurrencyLimit(this.config.maxConcurrency || DEFAULT_MAX_CONCURRENCY);
+    const tasks: Promise<void>[] = [];
+
+    pendingGroups.forEach(({ group, misses }) => {
+      this.chunkTexts(misses).forEach(texts => {
+        const chunk: TranslationChunk = {
+          texts,
+          fromLanguage: group.fromLanguage,
+          toLanguage: group.toLanguage,
+          format: group.format
+        };
+
+        tasks.push((async () => {
+          let chunkResponses: TranslationResponse[];
+          try {
+            chunkResponses = await this.translateChunkWithFailover(chunk, limit);
+            await Promise.all(texts.map((text, i) =>
+              this.setCached(text, chunk.fromLanguage, chunk.toLanguage, chunk.format, chunkResponses[i])
+            ));
+          } catch (error) {
+            this.events.emit('translationFailed', {
+              error,
+              texts,
+              fromLanguage: chunk.fromLanguage,
+              toLanguage: chunk.toLanguage,
+              providers: this.getProviders()
+            });
+
+            // Fallback to original text once every provider has failed
+            chunkResponses = texts.map(text => ({
+              translatedText: text,
+              confidence: 0,
+              detectedLanguage: chunk.fromLanguage
+            }));
+          }
+
+          texts.forEach((text, i) => {
+            group.indexes.get(text)!.forEach(index => {
+              responses[index] = chunkResponses[i];
+            });
+          });
+        })());
+      });
+    });
+
+    await Promise.all(tasks);
+
     return responses;
   }
 
   async detectLanguage(text: string): Promise<string> {
-    // Simple language detection based on character sets
-    if (/[\u4e00-\u9fff]/.test(text)) return 'zh';
-    if (/[\u3040-\u309f\u30a0-\u30ff]/.test(text)) return 'ja';
-    if (/[\uac00-\ud7af]/.test(text)) return 'ko';
-    if (/[\u0600-\u06ff]/.test(text)) return 'ar';
-    if (/[\u0590-\u05ff]/.test(text)) return 'he';
-    if (/[\u0a80-\u0aff]/.test(text)) return 'gu';
-    if (/[\u0b80-\u0bff]/.test(text)) return 'ta';
-    if (/[\u0c80-\u0cff]/.test(text)) return 'kn';
-    if (/[\u0d80-\u0dff]/.test(text)) return 'ml';
-    if (/[\u0e00-\u0e7f]/.test(text)) return 'th';
-    if (/[\u0e80-\u0eff]/.test(text)) return 'lo';
-    if (/[\u0f00-\u0fff]/.test(text)) return 'bo';
-    if (/[\u1000-\u109f]/.test(text)) return 'my';
-    if (/[\u1100-\u11ff]/.test(text)) return 'ko';
-    if (/[\u1200-\u137f]/.test(text)) return 'am';
-    if (/[\u1380-\u139f]/.test(text)) return 'am';
-    if (/[\u13a0-\u13ff]/.test(text)) return 'chr';
-    if (/[\u1400-\u167f]/.test(text)) return 'iu';
-    if (/[\u1680-\u169f]/.test(text)) return 'ga';
-    if (/[\u16a0-\u16ff]/.test(text)) return 'rune';
-    if (/[\u1700-\u171f]/.test(text)) return 'tl';
-    if (/[\u1720-\u173f]/.test(text)) return 'tl';
-    if (/[\u1740-\u175f]/.test(text)) return 'tl';
-    if (/[\u1760-\u177f]/.test(text)) return 'tl';
-    if (/[\u1780-\u17ff]/.test(text)) return 'km';
-    if (/[\u1800-\u18af]/.test(text)) return 'mn';
-    if (/[\u1900-\u194f]/.test(text)) return 'lmy';
-    if (/[\u1950-\u197f]/.test(text)) return 'tai';
-    if (/[\u1980-\u19df]/.test(text)) return 'tai';
-    if (/[\u19e0-\u19ff]/.test(text)) return 'tai';
-    if (/[\u1a00-\u1a1f]/.test(text)) return 'tai';
-    if (/[\u1a20-\u1aaf]/.test(text)) return 'tai';
-    if (/[\u1ab0-\u1aff]/.test(text)) return 'tai';
-    if (/[\u1b00-\u1b7f]/.test(text)) return 'bal';
-    if (/[\u1b80-\u1bbf]/.test(text)) return 'su';
-    if (/[\u1bc0-\u1bff]/.test(text)) return 'btd';
-    if (/[\u1c00-\u1c4f]/.test(text)) return 'lep';
-    if (/[\u1c50-\u1c7f]/.test(text)) return 'lep';
-    if (/[\u1cc0-\u1ccf]/.test(text)) return 'lep';
-    if (/[\u1cd0-\u1cff]/.test(text)) return 'lep';
-    if (/[\u1d00-\u1d7f]/.test(text)) return 'lep';
-    if (/[\u1d80-\u1dbf]/.test(text)) return 'lep';
-    if (/[\u1dc0-\u1dff]/.test(text)) return 'lep';
-    if (/[\u1e00-\u1eff]/.test(text)) return 'lep';
-    if (/[\u1f00-\u1fff]/.test(text)) return 'grc';
-    if (/[\u2000-\u206f]/.test(text)) return 'grc';
-    if (/[\u2070-\u209f]/.test(text)) return 'grc';
-    if (/[\u20a0-\u20cf]/.test(text)) return 'grc';
-    if (/[\u20d0-\u20ff]/.test(text)) return 'grc';
-    if (/[\u2100-\u214f]/.test(text)) return 'grc';
-    if (/[\u2150-\u218f]/.test(text)) return 'grc';
-    if (/[\u2190-\u21ff]/.test(text)) return 'grc';
-    if (/[\u2200-\u22ff]/.test(text)) return 'grc';
-    if (/[\u2300-\u23ff]/.test(text)) return 'grc';
-    if (/[\u2400-\u243f]/.test(text)) return 'grc';
-    if (/[\u2440-\u245f]/.test(text)) return 'grc';
-    if (/[\u2460-\u24ff]/.test(text)) return 'grc';
-    if (/[\u2500-\u257f]/.test(text)) return 'grc';
-    if (/[\u2580-\u259f]/.test(text)) return 'grc';
-    if (/[\u25a0-\u25ff]/.test(text)) return 'grc';
-    if (/[\u2600-\u26ff]/.test(text)) return 'grc';
-    if (/[\u2700-\u27bf]/.test(text)) return 'grc';
-    if (/[\u27c0-\u27ef]/.test(text)) return 'grc';
-    if (/[\u27f0-\u27ff]/.test(text)) return 'grc';
-    if (/[\u2800-\u28ff]/.test(text)) return 'grc';
-    if (/[\u2900-\u297f]/.test(text)) return 'grc';
-    if (/[\u2980-\u29ff]/.test(text)) return 'grc';
-    if (/[\u2a00-\u2a7f]/.test(text)) return 'grc';
-    if (/[\u2a80-\u2aff]/.test(text)) return 'grc';
-    if (/[\u2b00-\u2bff]/.test(text)) return 'grc';
-    if (/[\u2c00-\u2c5f]/.test(text)) return 'grc';
-    if (/[\u2c60-\u2c7f]/.test(text)) return 'grc';
-    if (/[\u2c80-\u2cff]/.test(text)) return 'grc';
-    if (/[\u2d00-\u2d2f]/.test(text)) return 'grc';
-    if (/[\u2d30-\u2d7f]/.test(text)) return 'grc';
-    if (/[\u2d80-\u2ddf]/.test(text)) return 'grc';
-    if (/[\u2de0-\u2dff]/.test(text)) return 'grc';
-    if (/[\u2e00-\u2e7f]/.test(text)) return 'grc';
-    if (/[\u2e80-\u2eff]/.test(text)) return 'grc';
-    if (/[\u2f00-\u2fdf]/.test(text)) return 'grc';
-    if (/[\u2ff0-\u2fff]/.test(text)) return 'grc';
-    if (/[\u3000-\u303f]/.test(text)) return 'grc';
-    if (/[\u3040-\u309f]/.test(text)) return 'ja';
-    if (/[\u30a0-\u30ff]/.test(text)) return 'ja';
-    if (/[\u3100-\u312f]/.test(text)) return 'grc';
-    if (/[\u3130-\u318f]/.test(text)) return 'ko';
-    if (/[\u3190-\u319f]/.test(text)) return 'grc';
-    if (/[\u31a0-\u31bf]/.test(text)) return 'grc';
-    if (/[\u31c0-\u31ef]/.test(text)) return 'grc';
-    if (/[\u31f0-\u31ff]/.test(text)) return 'grc';
-    if (/[\u3200-\u32ff]/.test(text)) return 'grc';
-    if (/[\u3300-\u33ff]/.test(text)) return 'grc';
-    if (/[\u3400-\u4dbf]/.test(text)) return 'zh';
-    if (/[\u4dc0-\u4dff]/.test(text)) return 'grc';
-    if (/[\u4e00-\u9fff]/.test(text)) return 'zh';
-    if (/[\ua000-\ua48f]/.test(text)) return 'yi';
-    if (/[\ua490-\ua4cf]/.test(text)) return 'yi';
-    if (/[\ua4d0-\ua4ff]/.test(text)) return 'lrc';
-    if (/[\ua500-\ua63f]/.test(text)) return 'vai';
-    if (/[\ua640-\ua69f]/.test(text)) return 'cyr';
-    if (/[\ua6a0-\ua6ff]/.test(text)) return 'cyr';
-    if (/[\ua700-\ua71f]/.test(text)) return 'cyr';
-    if (/[\ua720-\ua7ff]/.test(text)) return 'cyr';
-    if (/[\ua800-\ua82f]/.test(text)) return 'cyr';
-    if (/[\ua830-\ua83f]/.test(text)) return 'cyr';
-    if (/[\ua840-\ua87f]/.test(text)) return 'cyr';
-    if (/[\ua880-\ua8df]/.test(text)) return 'cyr';
-    if (/[\ua8e0-\ua8ff]/.test(text)) return 'cyr';
-    if (/[\ua900-\ua92f]/.test(text)) return 'cyr';
-    if (/[\ua930-\ua95f]/.test(text)) return 'cyr';
-    if (/[\ua960-\ua97f]/.test(text)) return 'cyr';
-    if (/[\ua980-\ua9df]/.test(text)) return 'cyr';
-    if (/[\ua9e0-\ua9ff]/.test(text)) return 'cyr';
-    if (/[\uaa00-\uaa5f]/.test(text)) return 'cyr';
-    if (/[\uaa60-\uaa7f]/.test(text)) return 'cyr';
-    if (/[\uaa80-\uaadf]/.test(text)) return 'cyr';
-    if (/[\uaae0-\uaaff]/.test(text)) return 'cyr';
-    if (/[\uab00-\uab2f]/.test(text)) return 'cyr';
-    if (/[\uab30-\uab6f]/.test(text)) return 'cyr';
-    if (/[\uab70-\uabbf]/.test(text)) return 'cyr';
-    if (/[\uabc0-\uabff]/.test(text)) return 'cyr';
-    if (/[\uac00-\ud7af]/.test(text)) return 'ko';
-    if (/[\ud7b0-\ud7ff]/.test(text)) return 'ko';
-    if (/[\ud800-\udb7f]/.test(text)) return 'ko';
-    if (/[\udb80-\udbff]/.test(text)) return 'ko';
-    if (/[\udc00-\udfff]/.test(text)) return 'ko';
-    if (/[\ue000-\uf8ff]/.test(text)) return 'ko';
-    if (/[\uf900-\ufaff]/.test(text)) return 'ko';
-    if (/[\ufb00-\ufb4f]/.test(text)) return 'ko';
-    if (/[\ufb50-\ufdff]/.test(text)) return 'ko';
-    if (/[\ufe00-\ufe0f]/.test(text)) return 'ko';
-    if (/[\ufe10-\ufe1f]/.test(text)) return 'ko';
-    if (/[\ufe20-\ufe2f]/.test(text)) return 'ko';
-    if (/[\ufe30-\ufe4f]/.test(text)) return 'ko';
-    if (/[\ufe50-\ufe6f]/.test(text)) return 'ko';
-    if (/[\ufe70-\ufeff]/.test(text)) return 'ko';
-    if (/[\uff00-\uffef]/.test(text)) return 'ko';
-    if (/[\ufff0-\uffff]/.test(text)) return 'ko';
-    
-    // Default to English for Latin script
-    return 'en';
+    if (this.provider.detectLanguage) {
+      try {
+        return await this.provider.detectLanguage(text);
+      } catch {
+        // Fall back to offline detection below
+      }
+    }
+
+    // Rank offline by trigram profiles, falling back to the script for short texts
+    return detectLanguage(text)?.language ?? 'en';
   }
 
-  private async translateWithDeepL(request: TranslationRequest): Promise<TranslationResponse> {
-    const url = 'https://api-free.deepl.com/v2/translate';
-    
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `DeepL-Auth-Key ${this.config.apiKey}`,
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        body: new URLSearchParams({
-          text: request.text,
-          source_lang: request.fromLanguage.toUpperCase(),
-          target_lang: request.toLanguage.toUpperCase()
-        })
-      });
+  /**
+   * Candidate languages of a text ranked by confidence, detected offline
+   */
+  detectLanguageCandidates(text: string, options?: DetectLanguageOptions): LanguageCandidate[] {
+    return detectLanguages(text, options);
+  }
+
+  /**
+   * Split texts into chunks that fit both `batchSize` and the provider's limits
+   */
+  private chunkTexts(texts: string[]): string[][] {
+    const limits = this.provider.limits || (this.provider.translateBatch ? BATCH_LIMITS : SINGLE_TEXT_LIMITS);
+    const maxTexts = Math.max(1, Math.min(this.config.batchSize || DEFAULT_BATCH_SIZE, limits.maxTexts));
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let currentBytes = 0;
+
+    texts.forEach(text => {
+      // URL-encoded length is a safe upper bound for both form and JSON payloads
+      const bytes = encodeURIComponent(text).length;
 
-      if (!response.ok) {
-        throw new Error(`DeepL API error: ${response.status}`);
+      if (current.length > 0 && (current.length >= maxTexts || currentBytes + bytes > limits.maxBytes)) {
+        chunks.push(current);
+        current = [];
+        currentBytes = 0;
       }
 
-      const data = await response.json();
-      return {
-        translatedText: data.translations[0].text,
-        confidence: 0.95,
-        detectedLanguage: data.translations[0].detected_source_language?.toLowerCase() || request.fromLanguage
-      };
-    } catch (error) {
-      throw new Error(`DeepL translation failed: ${error}`);
+      current.push(text);
+      currentBytes += bytes;
+    });
+
+    if (current.length > 0) {
+      chunks.push(current);
     }
+
+    return chunks;
+  }
+
+  /**
+   * Number of requests waiting for the rate limiter, across all providers
+   */
+  getQueueDepth(): number {
+    return this.rateLimiter.getQueueDepth() + (this.fallback ? this.fallback.getQueueDepth() : 0);
   }
 
-  private async translateWithGoogleCloud(_request: TranslationRequest): Promise<TranslationResponse> {
-    // Placeholder for Google Cloud Translation API
-    // You can implement this later when you have the API key
-    throw new Error('Google Cloud Translation API not yet implemented. Please use DeepL or custom service for now.');
+  /**
+   * Cache hit/miss statistics, or null when caching is disabled
+   */
+  getCacheStats(): TranslationCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
   }
 
-  private async translateWithCustom(request: TranslationRequest): Promise<TranslationResponse> {
-    if (!this.config.endpoint) {
-      throw new Error('Custom endpoint not configured');
+  /**
+   * Remove cached translations matching a filter, or all of them
+   */
+  async invalidateCache(filter?: TranslationCacheFilter): Promise<void> {
+    if (this.cache) {
+      await this.cache.invalidate(filter);
     }
+  }
+
+  /**
+   * Language codes the primary provider can translate into, or null when it cannot tell
+   */
+  async getSupportedLanguages(): Promise<string[] | null> {
+    return this.provider.getSupportedLanguages ? this.provider.getSupportedLanguages() : null;
+  }
+
+  /**
+   * Provider names in failover order
+   */
+  getProviders(): string[] {
+    return [this.config.provider, ...(this.fallback ? this.fallback.getProviders() : [])];
+  }
+
+  /**
+   * Cached translation from the first provider in failover order that has one
+   */
+  private async getCached(
+    text: string,
+    fromLanguage: string,
+    toLanguage: string,
+    format: TranslationFormat | undefined
+  ): Promise<TranslationResponse | undefined> {
+    return this.cache
+      ? this.cache.get(this.getProviders(), fromLanguage, toLanguage, text, this.getCacheVariant(format))
+      : undefined;
+  }
+
+  /**
+   * Cache a response under the provider that served it, which may be a fallback
+   */
+  private async setCached(
+    text: string,
+    fromLanguage: string,
+    toLanguage: string,
+    format: TranslationFormat | undefined,
+    response: TranslationResponse | undefined
+  ): Promise<void> {
+    if (this.cache && response && response.translatedText) {
+      const provider = response.provider || this.config.provider;
+      await this.cache.set(provider, fromLanguage, toLanguage, text, response, this.getCacheVariant(format));
+    }
+  }
+
+  private getCacheVariant(format: TranslationFormat | undefined): string {
+    return `${format || 'text'}:${this.termSettings}`;
+  }
 
+  /**
+   * Settings that change what a provider returns for the same text, in failover order
+   */
+  private getTermSettings(): unknown[] {
+    const { glossary, glossaryIds, protectedTerms, protectedPatterns, autoProtect } = this.config;
+    return [
+      { glossary, glossaryIds, protectedTerms, protectedPatterns: protectedPatterns?.map(String), autoProtect },
+      ...(this.fallback ? this.fallback.getTermSettings() : [])
+    ];
+  }
+
+  private async translateWithFailover(request: TranslationRequest): Promise<TranslationResponse> {
     try {
-      const response = await fetch(this.config.endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(request)
-      });
+      return await this.withRetry(() => this.translateWithProvider(request));
+    } catch (error) {
+      if (this.fallback) {
+        return this.fallback.translateWithFailover(request);
+      }
+      throw error;
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`Custom API error: ${response.status}`);
+  /**
+   * Translate a chunk, handing only the sub-chunks that failed on to the next provider
+   */
+  private async translateChunkWithFailover(
+    chunk: TranslationChunk,
+    limit: ConcurrencyLimit
+  ): Promise<TranslationResponse[]> {
+    // Re-chunk in case a fallback provider has smaller limits than the primary one
+    const results = await Promise.all(this.chunkTexts(chunk.texts).map(async texts => {
+      try {
+        return await limit(() => this.withRetry(() => this.translateChunk({ ...chunk, texts })));
+      } catch (error) {
+        if (this.fallback) {
+          return this.fallback.translateChunkWithFailover({ ...chunk, texts }, limit);
+        }
+        throw error;
       }
+    }));
+    return results.reduce((all, responses) => all.concat(responses), [] as TranslationResponse[]);
+  }
 
-      const data = await response.json();
-      return {
-        translatedText: data.translatedText || data.text || request.text,
-        confidence: data.confidence || 0.8,
-        detectedLanguage: data.detectedLanguage || request.fromLanguage
-      };
-    } catch (error) {
-      throw new Error(`Custom translation failed: ${error}`);
+  private async translateWithProvider(request: TranslationRequest): Promise<TranslationResponse> {
+    const [response] = await this.translateProtected(
+      [request.text],
+      request.fromLanguage,
+      request.toLanguage,
+      async ([text]) => [await this.provider.translate({ ...request, text })]
+    );
+    return response;
+  }
+
+  private async translateChunk(chunk: TranslationChunk): Promise<TranslationResponse[]> {
+    return this.translateProtected(chunk.texts, chunk.fromLanguage, chunk.toLanguage, texts => {
+      if (!this.provider.translateBatch) {
+        // Providers without multi-text support get one request per text
+        return Promise.all(texts.map(text => this.provider.translate({
+          text,
+          fromLanguage: chunk.fromLanguage,
+          toLanguage: chunk.toLanguage,
+          format: chunk.format
+        })));
+      }
+
+      return this.provider.translateBatch(texts, chunk.fromLanguage, chunk.toLanguage, chunk.format);
+    });
+  }
+
+  /**
+   * Send texts with glossary terms and protected spans masked, and unmask the responses
+   */
+  private async translateProtected(
+    texts: string[],
+    fromLanguage: string,
+    toLanguage: string,
+    send: (_texts: string[]) => Promise<TranslationResponse[]>
+  ): Promise<TranslationResponse[]> {
+    const includeGlossary = !(this.provider.hasGlossary && this.provider.hasGlossary(fromLanguage, toLanguage));
+    const masked = texts.map(text => this.termProtector.mask(text, fromLanguage, toLanguage, includeGlossary));
+    const responses = await send(masked.map(item => item.text));
+
+    return responses.map((response, i) => ({
+      ...response,
+      translatedText: this.termProtector.unmask(response.translatedText, masked[i].replacements),
+      provider: this.config.provider
+    }));
+  }
+
+  /**
+   * Retry transient failures with jittered exponential backoff
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    const retries = this.config.retries ?? DEFAULT_RETRIES;
+    const baseDelay = this.config.retryDelay ?? DEFAULT_RETRY_DELAY;
+    const maxDelay = this.config.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        const retryable = error instanceof TranslationApiError && error.retryable;
+        if (!retryable || attempt >= retries) {
+          throw error;
+        }
+
+        const delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+        await new Promise(resolve => setTimeout(resolve, delay / 2 + Math.random() * (delay / 2)));
+      }
     }
   }
 
-  private async handleRateLimit(): Promise<void> {
-    if (this.config.rateLimit && this.rateLimitDelay > 0) {
-      await new Promise(resolve => setTimeout(resolve, this.rateLimitDelay));
+  /**
+   * Send an HTTP request through the rate limiter. A 429 response pauses
+   * all further requests for the duration of its Retry-After header.
+   */
+  private async request(url: string, init?: Parameters<typeof fetch>[1]): Promise<Response> {
+    await this.rateLimiter.acquire();
+    const response = await fetch(url, init);
+
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== null) {
+        this.rateLimiter.pause(retryAfter);
+      }
     }
+
+    return response;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Run tasks passed to the returned function with at most `limit` of them in flight at once
+ */
+function createConcurrencyLimit(limit: number): ConcurrencyLimit {
+  const queue: (() => void)[] = [];
+  let active = 0;
+
+  const next = () => {
+    if (active < Math.max(1, limit) && queue.length > 0) {
+      active++;
+      queue.shift()!();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      task().then(resolve, reject).finally(() => {
+        active--;
+        next();
+      });
+    });
+    next();
+  });
+}
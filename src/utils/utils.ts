@@ -3,7 +3,19 @@ import { LanguageConfig } from '../types/types';
 // Export new utilities
 export { ContentDetector } from './content-detector';
 export { TranslationService } from './translation-service';
+export { EventEmitter } from './event-emitter';
+export { MissingKeyCollector } from './missing-keys';
+export { TranslationCache, LocalStorageCacheStore, IndexedDBCacheStore } from './translation-cache';
+export { ViewportQueue } from './viewport-queue';
+export { TermProtector } from './term-protection';
+export { TranslationOverrides } from './translation-overrides';
+export { TranslationEditor } from './translation-editor';
+export { InlineMarkup } from './inline-markup';
+export { LanguageStore } from './language-store';
+export { detectLanguage, detectLanguages } from './language-detector';
 export * from './env-loader';
+export * from './message-format';
+export * from './rich-text';
 
 /**
  * Get browser's preferred language
@@ -0,0 +1,161 @@
+import { DetectedContent } from '../types/types';
+import { containsComposed } from './content-detector';
+
+export interface ViewportQueueOptions {
+  rootMargin?: string;
+  // Delay before content hidden with aria-hidden is released
+  hiddenDelay?: number;
+  onVisible: (_content: DetectedContent[], _language: string) => void;
+}
+
+const DEFAULT_ROOT_MARGIN = '200px';
+const DEFAULT_HIDDEN_DELAY = 2000;
+
+/**
+ * Holds detected content back until its element nears the viewport.
+ * Content outside `<body>` (title, meta) is released immediately, content
+ * under `aria-hidden` after a delay, and `display: none` content only once
+ * it is shown, since it never intersects.
+ */
+export class ViewportQueue {
+  private options: ViewportQueueOptions;
+  private observer: IntersectionObserver | null = null;
+  private pending = new Map<Element, DetectedContent[]>();
+  private hiddenTimer: ReturnType<typeof setTimeout> | null = null;
+  private hidden: DetectedContent[] = [];
+  private language: string | null = null;
+
+  constructor(options: ViewportQueueOptions) {
+    this.options = options;
+  }
+
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof window.IntersectionObserver === 'function';
+  }
+
+  /**
+   * Queue content for translation into a language. Queuing for a different
+   * language than the pending content drops what is still pending.
+   */
+  public enqueue(content: DetectedContent[], language: string): void {
+    if (language !== this.language) {
+      this.clear();
+      this.language = language;
+    }
+
+    const immediate: DetectedContent[] = [];
+
+    content.forEach(item => {
+      const element = item.element;
+      const body = element.ownerDocument.body;
+      if (!body || !containsComposed(body, element)) {
+        immediate.push(item);
+      } else if (element.closest('[aria-hidden="true"]')) {
+        this.hidden.push(item);
+      } else {
+        const queued = this.pending.get(element);
+        if (queued) {
+          queued.push(item);
+        } else {
+          this.pending.set(element, [item]);
+          this.getObserver().observe(element);
+        }
+      }
+    });
+
+    if (immediate.length > 0) {
+      this.options.onVisible(immediate, language);
+    }
+    if (this.hidden.length > 0 && !this.hiddenTimer) {
+      this.hiddenTimer = setTimeout(() => this.releaseHidden(), this.options.hiddenDelay ?? DEFAULT_HIDDEN_DELAY);
+    }
+  }
+
+  /**
+   * Language content is currently queued for, or null once cleared
+   */
+  public getLanguage(): string | null {
+    return this.language;
+  }
+
+  /**
+   * Number of content entries still waiting
+   */
+  public size(): number {
+    let count = this.hidden.length;
+    this.pending.forEach(items => {
+      count += items.length;
+    });
+    return count;
+  }
+
+  /**
+   * Drop pending content, e.g. content removed from the page
+   */
+  public remove(content: DetectedContent[]): void {
+    const removed = new Set(content);
+    this.hidden = this.hidden.filter(item => !removed.has(item));
+    this.pending.forEach((items, element) => {
+      const remaining = items.filter(item => !removed.has(item));
+      if (remaining.length > 0) {
+        this.pending.set(element, remaining);
+      } else {
+        this.pending.delete(element);
+        this.observer?.unobserve(element);
+      }
+    });
+  }
+
+  /**
+   * Drop all pending content and stop observing
+   */
+  public clear(): void {
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+    if (this.hiddenTimer) {
+      clearTimeout(this.hiddenTimer);
+      this.hiddenTimer = null;
+    }
+    this.pending.clear();
+    this.hidden = [];
+    this.language = null;
+  }
+
+  private getObserver(): IntersectionObserver {
+    if (!this.observer) {
+      this.observer = new IntersectionObserver(entries => this.handleEntries(entries), {
+        rootMargin: this.options.rootMargin || DEFAULT_ROOT_MARGIN
+      });
+    }
+    return this.observer;
+  }
+
+  private handleEntries(entries: IntersectionObserverEntry[]): void {
+    const visible: DetectedContent[] = [];
+
+    entries.forEach(entry => {
+      const items = this.pending.get(entry.target);
+      if (entry.isIntersecting && items) {
+        visible.push(...items);
+        this.pending.delete(entry.target);
+        this.observer?.unobserve(entry.target);
+      }
+    });
+
+    if (visible.length > 0 && this.language) {
+      this.options.onVisible(visible, this.language);
+    }
+  }
+
+  private releaseHidden(): void {
+    this.hiddenTimer = null;
+    const hidden = this.hidden;
+    this.hidden = [];
+
+    if (hidden.length > 0 && this.language) {
+      this.options.onVisible(hidden, this.language);
+    }
+  }
+}
\ No newline at end of file
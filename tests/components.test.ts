@@ -0,0 +1,296 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, createElement, Fragment } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { LanguageProvider, LanguageProviderProps, Trans, TransProps, Translation } from '../src/components/components';
+import { LanguageSwitcher } from '../src/core/language-switcher';
+import { LanguageSwitcherContext, useLanguage, useLanguageSwitcher, useTranslation } from '../src/hooks/useLanguage';
+import { LanguageStore } from '../src/utils/language-store';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const options = { defaultLanguage: 'en', persistLanguage: false };
+let container: HTMLElement;
+let root: Root;
+let rendered: LanguageSwitcher[];
+
+function Greeting() {
+  const { t, currentLanguage } = useLanguage();
+  rendered.push(useLanguageSwitcher()!);
+  return createElement('p', null, `${currentLanguage}: ${t('hello')}`);
+}
+
+beforeEach(() => {
+  container = document.createElement('div');
+  root = createRoot(container);
+  rendered = [];
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  jest.restoreAllMocks();
+});
+
+describe('React Context', () => {
+  it('should read the nearest provided instance before the global one', () => {
+    // The global instance lives in the hooks module, so it is set up in a module registry of its own
+    jest.isolateModules(() => {
+      const react: typeof import('react') = require('react');
+      const client: typeof import('react-dom/client') = require('react-dom/client');
+      const hooks: typeof import('../src/hooks/useLanguage') = require('../src/hooks/useLanguage');
+      const core: typeof import('../src/core/language-switcher') = require('../src/core/language-switcher');
+      const IsolatedGreeting = () => {
+        const { t, currentLanguage } = hooks.useLanguage();
+        return react.createElement('p', null, `${currentLanguage}: ${t('hello')}`);
+      };
+      const outer = new core.LanguageSwitcher(options);
+      const inner = new core.LanguageSwitcher({ ...options, defaultLanguage: 'de' });
+      hooks.initializeLanguageSwitcher(options).addTranslations('en', { hello: 'Hello' });
+      outer.addTranslations('en', { hello: 'Hi' });
+      inner.addTranslations('de', { hello: 'Hallo' });
+      const isolatedRoot = client.createRoot(container);
+
+      react.act(() => isolatedRoot.render(react.createElement(react.Fragment, null,
+        react.createElement(IsolatedGreeting),
+        react.createElement(hooks.LanguageSwitcherContext.Provider, { value: outer },
+          react.createElement(IsolatedGreeting),
+          react.createElement(hooks.LanguageSwitcherContext.Provider, { value: inner }, react.createElement(IsolatedGreeting))
+        )
+      )));
+
+      expect(container.innerHTML).toBe('<p>en: Hello</p><p>en: Hi</p><p>de: Hallo</p>');
+      react.act(() => isolatedRoot.unmount());
+    });
+  });
+
+  it('should re-render when the language or translations in use change', async () => {
+    const switcher = new LanguageSwitcher(options);
+    switcher.addLanguage('es', { code: 'es', name: 'Español' });
+    switcher.addTranslations('en', { hello: 'Hello' });
+    switcher.addTranslations('es', { hello: 'Hola' });
+    const Title = () => createElement('h1', null, useTranslation('nav.title'));
+
+    act(() => {
+      root.render(createElement(LanguageSwitcherContext.Provider, { value: switcher }, createElement(Greeting), createElement(Title)));
+    });
+    expect(container.textContent).toBe('en: Hellonav.title');
+
+    await act(() => switcher.setLanguage('es'));
+    expect(container.textContent).toBe('es: Holanav.title');
+
+    act(() => switcher.addTranslations('es', { nav: { title: 'Inicio' } }));
+    expect(container.textContent).toBe('es: HolaInicio');
+  });
+});
+
+describe('LanguageProvider', () => {
+  function render(props: Omit<LanguageProviderProps, 'children'>): void {
+    act(() => {
+      root.render(createElement(LanguageProvider, { ...props, children: createElement(Greeting) }));
+    });
+  }
+
+  it('should create an instance from options and add its translations once', () => {
+    const addTranslations = jest.spyOn(LanguageSwitcher.prototype, 'addTranslations');
+    const translations = { en: { hello: 'Hello' } };
+
+    render({ options, translations });
+    render({ options, translations });
+
+    expect(container.textContent).toBe('en: Hello');
+    expect(addTranslations).toHaveBeenCalledTimes(1);
+    expect(new Set(rendered).size).toBe(1);
+  });
+
+  it('should publish a given instance and add changed translations to it', () => {
+    const switcher = new LanguageSwitcher({ ...options, defaultLanguage: 'de' });
+    const addTranslations = jest.spyOn(switcher, 'addTranslations');
+
+    render({ switcher, translations: { de: { hello: 'Hallo' } } });
+    expect(container.textContent).toBe('de: Hallo');
+    expect(rendered.every(instance => instance === switcher)).toBe(true);
+
+    render({ switcher, translations: { de: { hello: 'Servus' } } });
+    expect(container.textContent).toBe('de: Servus');
+    expect(addTranslations).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to its own instance when the switcher prop is removed', () => {
+    const switcher = new LanguageSwitcher({ ...options, defaultLanguage: 'de' });
+    switcher.addTranslations('de', { hello: 'Hallo' });
+    const translations = { en: { hello: 'Hello' } };
+
+    render({ switcher, options, translations });
+    expect(container.textContent).toBe('de: Hallo');
+
+    render({ options, translations });
+    expect(container.textContent).toBe('en: Hello');
+    expect(rendered[rendered.length - 1]).not.toBe(switcher);
+  });
+
+  it('should not notify subscribers of a given instance while rendering', () => {
+    const switcher = new LanguageSwitcher({ ...options, defaultLanguage: 'de' });
+    const error = jest.spyOn(console, 'error');
+    const tree = (...translations: Record<string, Record<string, string>>[]) => createElement(Fragment, null,
+      ...translations.map((data, index) => createElement(LanguageProvider, {
+        key: index,
+        switcher,
+        translations: data,
+        children: createElement(Greeting)
+      }))
+    );
+
+    act(() => root.render(tree({})));
+    act(() => root.render(tree({}, { de: { hello: 'Hallo' } })));
+
+    expect(container.textContent).toBe('de: Hallode: Hallo');
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('should tear down only the instance it created on unmount', () => {
+    const stopAutoTranslation = jest.spyOn(LanguageSwitcher.prototype, 'stopAutoTranslation');
+    const disableEditor = jest.spyOn(LanguageSwitcher.prototype, 'disableEditor');
+
+    render({ switcher: new LanguageSwitcher(options) });
+    act(() => root.render(null));
+    expect(stopAutoTranslation).not.toHaveBeenCalled();
+    expect(disableEditor).not.toHaveBeenCalled();
+
+    render({ options });
+    const own = rendered[rendered.length - 1];
+    act(() => root.render(null));
+    expect(stopAutoTranslation.mock.contexts).toEqual([own]);
+    expect(disableEditor.mock.contexts).toEqual([own]);
+  });
+
+  it('should require options or a switcher', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => render({})).toThrow('LanguageProvider needs either options or a switcher');
+  });
+});
+
+describe('Translation components', () => {
+  let switcher: LanguageSwitcher;
+
+  beforeEach(() => {
+    switcher = new LanguageSwitcher(options);
+    switcher.addTranslations('en', {
+      title: 'Welcome',
+      terms: 'Read the <link>terms</link> and <bold>privacy <italic>policy</italic></bold>.<br/>Thanks',
+      steps: '<0>Open</0> the <1>menu</1><2/>',
+      loose: 'Press <kbd>Enter</kbd> or <b>Esc',
+      cart: 'Hi {name}, <link>{count, plural, one {# item} other {# items}}</link>',
+      echo: 'You said {text}'
+    });
+  });
+
+  function renderTrans(props: TransProps): void {
+    act(() => {
+      root.render(createElement(LanguageSwitcherContext.Provider, { value: switcher }, createElement(Trans, props)));
+    });
+  }
+
+  it('should render the key translation with its key attribute', () => {
+    act(() => {
+      root.render(createElement(LanguageSwitcherContext.Provider, { value: switcher },
+        createElement(Translation, { i18nKey: 'title', className: 'heading' }),
+        createElement(Translation, { i18nKey: 'missing', fallback: 'Fallback' })
+      ));
+    });
+
+    expect(container.innerHTML).toBe(
+      '<span class="heading" data-i18n-key="title">Welcome</span><span class="" data-i18n-key="missing">Fallback</span>'
+    );
+  });
+
+  it('should render named components with nested and self-closing tags', () => {
+    renderTrans({
+      i18nKey: 'terms',
+      components: {
+        link: createElement('a', { href: '/terms' }),
+        bold: createElement('strong'),
+        italic: createElement('em'),
+        br: createElement('br')
+      }
+    });
+
+    expect(container.innerHTML).toBe(
+      'Read the <a href="/terms">terms</a> and <strong>privacy <em>policy</em></strong>.<br>Thanks'
+    );
+  });
+
+  it('should render array components by index, keeping the children of self-closing ones', () => {
+    renderTrans({
+      i18nKey: 'steps',
+      components: [createElement('b'), createElement('i'), createElement('small', null, 'now')]
+    });
+
+    expect(container.innerHTML).toBe('<b>Open</b> the <i>menu</i><small>now</small>');
+  });
+
+  it('should render the content of unknown tags and unclosed tags as text', () => {
+    renderTrans({ i18nKey: 'loose', components: { b: createElement('b') } });
+
+    expect(container.innerHTML).toBe('Press Enter or &lt;b&gt;Esc');
+  });
+
+  it('should format ICU values inside tags', () => {
+    renderTrans({ i18nKey: 'cart', components: { link: createElement('a') }, values: { name: 'Eve', count: 3 } });
+
+    expect(container.innerHTML).toBe('Hi Eve, <a>3 items</a>');
+  });
+
+  it('should render tags in values as text', () => {
+    renderTrans({ i18nKey: 'echo', components: { b: createElement('b') }, values: { text: '<b>bold</b>' } });
+
+    expect(container.innerHTML).toBe('You said &lt;b&gt;bold&lt;/b&gt;');
+    expect(container.querySelector('b')).toBeNull();
+  });
+});
+
+describe('Language Store', () => {
+  let switcher: LanguageSwitcher;
+
+  beforeEach(() => {
+    switcher = new LanguageSwitcher(options);
+  });
+
+  it('should change snapshots only for the sections that changed', () => {
+    switcher.addTranslations('en', { nav: { home: 'Home' }, footer: { legal: 'Legal' } });
+    const store = LanguageStore.for(switcher);
+    const listener = jest.fn();
+    store.subscribe(listener);
+    const sections = store.getSections(['nav.home', 'checkout:pay']);
+    const snapshot = store.getSnapshot(sections);
+
+    switcher.addTranslations('en', { footer: { legal: 'Imprint' } });
+    expect(store.getSnapshot(sections)).toBe(snapshot);
+
+    switcher.setTranslation('nav.home', 'Start');
+    const updated = store.getSnapshot(sections);
+    expect(updated).not.toBe(snapshot);
+
+    switcher.addTranslations('en', { pay: 'Pay' }, 'checkout');
+    expect(sections).toEqual(['nav', 'checkout']);
+    expect(store.getSnapshot(sections)).not.toBe(updated);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should change snapshots with the language', async () => {
+    switcher.addLanguage('es', { code: 'es', name: 'Español' });
+    const store = LanguageStore.for(switcher);
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+    const snapshot = store.getSnapshot([]);
+
+    await switcher.setLanguage('es');
+    unsubscribe();
+    await switcher.setLanguage('en');
+
+    expect(store.getSnapshot([])).toBe(snapshot);
+    expect(store.getServerSnapshot([])).toBe(snapshot);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
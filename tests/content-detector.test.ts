@@ -0,0 +1,578 @@
+/**
+ * @jest-environment jsdom
+ */
+import { LanguageSwitcher } from '../src/core/language-switcher';
+import { registerTranslationProvider, unregisterTranslationProvider } from '../src/providers';
+import { DetectedContent, LanguageSwitcherOptions, TranslationRequest } from '../src/types/types';
+import { ContentDetector } from '../src/utils/content-detector';
+
+describe('ContentDetector', () => {
+  let sent: TranslationRequest[];
+
+  beforeAll(() => {
+    registerTranslationProvider('brackets', () => ({
+      translate: async request => {
+        sent.push(request);
+        return { translatedText: `[${request.text}]` };
+      }
+    }));
+  });
+
+  afterAll(() => {
+    unregisterTranslationProvider('brackets');
+  });
+
+  beforeEach(() => {
+    sent = [];
+    document.documentElement.setAttribute('lang', 'en');
+  });
+
+  function createSwitcher(options: Partial<LanguageSwitcherOptions> = {}): LanguageSwitcher {
+    const switcher = new LanguageSwitcher({
+      defaultLanguage: 'en',
+      persistLanguage: false,
+      translationApi: { provider: 'brackets' },
+      ...options
+    });
+    switcher.addLanguage('es', { code: 'es', name: 'Español' });
+    return switcher;
+  }
+
+  describe('text nodes', () => {
+    it('should translate text nodes in place, keeping child elements and their listeners', async () => {
+      document.body.innerHTML = '<p id="p">Read the <a href="#">terms of service</a> before <strong>signing up</strong> today.</p>';
+      const link = document.querySelector('a')!;
+      const onClick = jest.fn();
+      link.addEventListener('click', onClick);
+
+      await createSwitcher().translateElement(document.body, 'es');
+
+      expect(document.getElementById('p')!.textContent)
+        .toBe('[Read the] [terms of service] [before] [signing up] [today.]');
+      expect(document.querySelector('a')).toBe(link);
+      link.click();
+      expect(onClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should translate nested matches once and skip excluded elements', async () => {
+      document.body.innerHTML = '<div><span>Nested span text</span> and div text</div><pre>code block</pre><div data-no-translate>skip this</div>';
+
+      await createSwitcher().translateElement(document.body, 'es');
+
+      expect(document.querySelector('div')!.textContent).toBe('[Nested span text] [and div text]');
+      expect(document.querySelector('pre')!.textContent).toBe('code block');
+      expect(document.querySelector('[data-no-translate]')!.textContent).toBe('skip this');
+      expect(sent.map(request => request.text).sort()).toEqual(['Nested span text', 'and div text']);
+    });
+
+    it('should restore each text node without touching the others', async () => {
+      document.body.innerHTML = '<p id="p">Read the <a href="#">terms of service</a> today.</p><p id="q" class="lead">Second paragraph</p>';
+      const html = document.body.innerHTML;
+      const switcher = createSwitcher();
+      await switcher.translateElement(document.body, 'es');
+      const link = document.querySelector('a')!;
+
+      await switcher.translateElement(document.getElementById('q')!, 'en');
+      expect(document.getElementById('q')!.textContent).toBe('Second paragraph');
+      expect(document.getElementById('p')!.textContent).toBe('[Read the] [terms of service] [today.]');
+
+      switcher.restoreOriginalText();
+      expect(document.getElementById('p')!.textContent).toBe('Read the terms of service today.');
+      expect(document.getElementById('p')!.firstElementChild).toBe(link);
+      expect(document.body.innerHTML).toBe(html);
+    });
+  });
+
+  describe('attributes', () => {
+    it('should translate and restore accessibility and SEO attributes', async () => {
+      document.head.innerHTML = '<meta property="og:title" content="Share title"><meta property="og:image" content="https://example.com/a.png">';
+      document.body.innerHTML = [
+        '<img src="a.png" alt="Company logo">',
+        '<a href="#" title="Open the terms" aria-label="Terms link">terms</a>',
+        '<input type="submit" value="Send it"><input type="text" value="Typed by user">',
+        '<select><option label="First choice">1</option></select>'
+      ].join('');
+      const switcher = createSwitcher();
+
+      await switcher.translateElement(document.documentElement, 'es');
+
+      const attributes = switcher.getDetectedContent()
+        .filter(content => content.attribute)
+        .map(content => `${content.attribute}=${content.originalText}`);
+      expect(attributes.sort()).toEqual([
+        'alt=Company logo', 'aria-label=Terms link', 'content=Share title',
+        'label=First choice', 'title=Open the terms', 'value=Send it'
+      ]);
+      expect(document.querySelector('img')!.getAttribute('alt')).toBe('[Company logo]');
+      expect(document.querySelector('a')!.getAttribute('title')).toBe('[Open the terms]');
+      expect(document.querySelector('a')!.getAttribute('aria-label')).toBe('[Terms link]');
+      expect(document.querySelector('a')!.textContent).toBe('[terms]');
+      expect(document.querySelector('input[type="submit"]')!.getAttribute('value')).toBe('[Send it]');
+      expect(document.querySelector('input[type="text"]')!.getAttribute('value')).toBe('Typed by user');
+      expect(document.querySelector('option')!.getAttribute('label')).toBe('[First choice]');
+      expect(document.querySelector('meta[property="og:title"]')!.getAttribute('content')).toBe('[Share title]');
+      expect(document.querySelector('meta[property="og:image"]')!.getAttribute('content')).toBe('https://example.com/a.png');
+
+      switcher.restoreOriginalText();
+      expect(document.querySelector('img')!.getAttribute('alt')).toBe('Company logo');
+      expect(document.querySelector('a')!.getAttribute('aria-label')).toBe('Terms link');
+      expect(document.querySelector('meta[property="og:title"]')!.getAttribute('content')).toBe('Share title');
+      document.head.innerHTML = '';
+    });
+
+    it('should translate attributes the page changes after translation', async () => {
+      document.body.innerHTML = '<img src="a.png" alt="Company logo">';
+      const switcher = createSwitcher({ mutationDebounce: 10 });
+      const img = document.querySelector('img')!;
+      switcher.startAutoTranslation();
+      await switcher.setLanguage('es');
+      await switcher.translatePage();
+      expect(img.getAttribute('alt')).toBe('[Company logo]');
+
+      img.setAttribute('alt', 'New product photo');
+      img.setAttribute('title', 'Product photo');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(img.getAttribute('alt')).toBe('[New product photo]');
+      expect(img.getAttribute('title')).toBe('[Product photo]');
+      expect(sent.map(request => request.text)).toEqual(['Company logo', 'New product photo', 'Product photo']);
+
+      switcher.restoreOriginalText();
+      expect(img.getAttribute('alt')).toBe('New product photo');
+      switcher.stopAutoTranslation();
+    });
+  });
+
+  describe('translate, lang and editable content', () => {
+    it('should honour translate="no" with a nested translate="yes"', async () => {
+      document.body.innerHTML = '<div translate="no">Brand name <span translate="yes">Translated inside</span> <img alt="Brand logo"></div>';
+
+      await createSwitcher().translateElement(document.body, 'es');
+
+      expect(document.querySelector('div')!.firstChild!.nodeValue).toBe('Brand name ');
+      expect(document.querySelector('span')!.textContent).toBe('[Translated inside]');
+      expect(document.querySelector('img')!.getAttribute('alt')).toBe('Brand logo');
+    });
+
+    it('should leave editable content and textarea values alone', async () => {
+      document.body.innerHTML = [
+        '<p>Editable: <span contenteditable="true">User text</span> <span contenteditable="false">Fixed text</span></p>',
+        '<textarea placeholder="Type here">Default typed</textarea>'
+      ].join('');
+
+      await createSwitcher().translateElement(document.body, 'es');
+
+      expect(document.querySelector('p')!.textContent).toBe('[Editable:] User text [Fixed text]');
+      expect(document.querySelector('textarea')!.value).toBe('Default typed');
+      expect(document.querySelector('textarea')!.getAttribute('placeholder')).toBe('[Type here]');
+    });
+
+    it('should restore lang-scoped fragments in the target language instead of translating them', async () => {
+      document.body.innerHTML = '<p id="es" lang="es">Hola amigos</p><p id="en">Hello friends</p>';
+      const switcher = createSwitcher();
+      switcher.addLanguage('fr', { code: 'fr', name: 'Français' });
+
+      await switcher.translateElement(document.body, 'fr');
+      expect(document.getElementById('es')!.textContent).toBe('[Hola amigos]');
+      expect(sent.map(request => `${request.fromLanguage}>${request.toLanguage}`)).toEqual(['es>fr', 'en>fr']);
+
+      sent = [];
+      await switcher.translateElement(document.body, 'es');
+      expect(document.getElementById('es')!.textContent).toBe('Hola amigos');
+      expect(document.getElementById('en')!.textContent).toBe('[Hello friends]');
+      expect(sent.map(request => request.text)).toEqual(['Hello friends']);
+    });
+  });
+
+  describe('inline markup', () => {
+    const source = '<p>Read the <a href="/terms">terms</a> before <b>signing up</b>.</p>';
+    let translateHtml: (_text: string) => string;
+
+    beforeAll(() => {
+      registerTranslationProvider('markup', () => ({
+        translate: async request => {
+          sent.push(request);
+          return { translatedText: request.format === 'html' ? translateHtml(request.text) : `[${request.text}]` };
+        }
+      }));
+    });
+
+    afterAll(() => {
+      unregisterTranslationProvider('markup');
+    });
+
+    beforeEach(() => {
+      document.body.innerHTML = source;
+    });
+
+    function createMarkupSwitcher(): LanguageSwitcher {
+      return createSwitcher({ translationApi: { provider: 'markup', format: 'html' } });
+    }
+
+    it('should send a sentence with a link as one request with placeholder tags', async () => {
+      translateHtml = () => 'Lee los <x1>términos</x1> antes de <x2>registrarte</x2>.';
+      const link = document.querySelector('a')!;
+
+      await createMarkupSwitcher().translateElement(document.body, 'es');
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0]).toMatchObject({ text: 'Read the <x1>terms</x1> before <x2>signing up</x2>.', format: 'html' });
+      expect(document.body.innerHTML).toBe('<p data-translated="true" class="translated">Lee los <a href="/terms" data-translated="true" class="translated">términos</a> antes de <b data-translated="true" class="translated">registrarte</b>.</p>');
+      expect(document.querySelector('a')).toBe(link);
+    });
+
+    it('should move inline elements to where the translation puts their placeholders', async () => {
+      translateHtml = () => '<x2>Regístrate</x2> después de leer los <x1>términos</x1>.';
+      const link = document.querySelector('a')!;
+      const bold = document.querySelector('b')!;
+
+      await createMarkupSwitcher().translateElement(document.body, 'es');
+
+      const paragraph = document.querySelector('p')!;
+      expect(paragraph.textContent).toBe('Regístrate después de leer los términos.');
+      expect(Array.from(paragraph.children)).toEqual([bold, link]);
+    });
+
+    it('should translate text nodes one by one when a placeholder is missing', async () => {
+      translateHtml = () => 'Lee los términos antes de <x2>registrarte</x2>.';
+
+      await createMarkupSwitcher().translateElement(document.body, 'es');
+
+      expect(sent.map(request => request.format)).toEqual(['html', 'text', 'text', 'text', 'text']);
+      expect(sent.slice(1).map(request => request.text).sort()).toEqual(['Read the', 'before', 'signing up', 'terms']);
+      expect(document.querySelector('p')!.textContent).toBe('[Read the] [terms] [before] [signing up].');
+    });
+
+    it('should restore the original arrangement and text', async () => {
+      translateHtml = () => '<x2>Regístrate</x2> después de leer los <x1>términos</x1>.';
+      const paragraph = document.querySelector('p')!;
+      const html = document.body.innerHTML;
+      const nodes = Array.from(paragraph.childNodes);
+      const switcher = createMarkupSwitcher();
+      await switcher.translateElement(document.body, 'es');
+
+      switcher.restoreOriginalText();
+
+      expect(document.body.innerHTML).toBe(html);
+      expect(Array.from(paragraph.childNodes)).toEqual(nodes);
+      expect(document.querySelectorAll('[data-translated]')).toHaveLength(0);
+    });
+  });
+
+  describe('language detection', () => {
+    const spanish = 'Todos los seres humanos nacen libres e iguales en dignidad y derechos.';
+
+    it('should not send text already written in the target language', async () => {
+      document.body.innerHTML = `<p id="es">${spanish}</p><p id="en">Welcome to our store</p>`;
+      const switcher = createSwitcher();
+
+      await switcher.translateElement(document.body, 'es');
+
+      expect(switcher.getDetectedContent().map(content => content.language)).toEqual(['es', 'en']);
+      expect(sent.map(request => request.text)).toEqual(['Welcome to our store']);
+      expect(document.getElementById('es')!.textContent).toBe(spanish);
+    });
+
+    it('should not auto-translate added text already in the target language', async () => {
+      document.body.innerHTML = '<p>Welcome to our store</p>';
+      const switcher = createSwitcher({ mutationDebounce: 10 });
+      switcher.startAutoTranslation();
+      await switcher.setLanguage('es');
+      await switcher.translatePage();
+
+      document.body.insertAdjacentHTML('beforeend', `<p id="es">${spanish}</p><p>Free shipping on all orders</p>`);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(sent.map(request => request.text)).toEqual(['Welcome to our store', 'Free shipping on all orders']);
+      expect(document.getElementById('es')!.textContent).toBe(spanish);
+      switcher.stopAutoTranslation();
+    });
+
+    it('should keep the page language for texts too short to detect', async () => {
+      document.body.innerHTML = `<p>Hola amigos</p><p>${spanish}</p>`;
+      const switcher = createSwitcher();
+
+      await switcher.translateElement(document.body, 'es');
+
+      expect(switcher.getDetectedContent().map(content => content.language)).toEqual(['en', 'es']);
+      expect(sent.map(request => `${request.fromLanguage}:${request.text}`)).toEqual(['en:Hola amigos']);
+    });
+  });
+
+  describe('translation overrides', () => {
+    beforeEach(() => {
+      document.body.innerHTML = '<p id="sign-in">Sign in</p><p id="welcome">Welcome back</p><p id="forgot">Forgot password</p>';
+    });
+
+    it('should apply overrides without sending their text to the provider', async () => {
+      const switcher = createSwitcher({
+        translationOverrides: [{ source: 'Sign in', language: 'es', translation: 'Iniciar sesión' }]
+      });
+
+      await switcher.translateElement(document.body, 'es');
+
+      expect(sent.map(request => request.text)).toEqual(['Welcome back', 'Forgot password']);
+      expect(document.getElementById('sign-in')!.textContent).toBe('Iniciar sesión');
+      expect(document.getElementById('welcome')!.textContent).toBe('[Welcome back]');
+      expect(switcher.getTranslationStats()).toEqual({ human: 1, machine: 2 });
+    });
+
+    it('should win over cached machine translations', async () => {
+      const switcher = createSwitcher({ translationApi: { provider: 'brackets', cache: true } });
+      await switcher.setLanguage('es');
+      await switcher.translateElement(document.body);
+      expect(switcher.getTranslationStats()).toEqual({ human: 0, machine: 3 });
+
+      switcher.getTranslationOverrides().set({ source: 'Welcome back', language: 'es', translation: 'Bienvenido de nuevo' });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(document.getElementById('welcome')!.textContent).toBe('Bienvenido de nuevo');
+
+      switcher.restoreOriginalText();
+      await switcher.translateElement(document.body);
+
+      expect(sent).toHaveLength(3);
+      expect(document.getElementById('welcome')!.textContent).toBe('Bienvenido de nuevo');
+      expect(document.getElementById('forgot')!.textContent).toBe('[Forgot password]');
+      expect(switcher.getTranslationStats()).toEqual({ human: 1, machine: 2 });
+      const [welcome] = switcher.getDetectedContent().filter(content => content.originalText === 'Welcome back');
+      expect(switcher.getTranslationDetails(welcome)).toEqual({ origin: 'human' });
+    });
+  });
+
+  describe('mutation pipeline', () => {
+    let detector: ContentDetector | undefined;
+    let callback: jest.Mock;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      detector = undefined;
+      document.body.innerHTML = '<ul id="list"><li><span>Existing item</span></li></ul>';
+      callback = jest.fn();
+    });
+
+    afterEach(() => {
+      detector?.unwatch();
+      jest.useRealTimers();
+    });
+
+    function watch(options: Partial<LanguageSwitcherOptions> = {}): void {
+      detector = new ContentDetector({ defaultLanguage: 'en', mutationDebounce: 100, ...options });
+      detector.watch(callback);
+      callback.mockClear();
+    }
+
+    function addItem(text: string): void {
+      const item = document.createElement('li');
+      item.innerHTML = `<span>${text}</span>`;
+      document.getElementById('list')!.appendChild(item);
+    }
+
+    function texts(content: DetectedContent[]): string[] {
+      return content.map(item => item.originalText);
+    }
+
+    it('should coalesce a burst of mutations into one debounced flush', async () => {
+      watch();
+
+      addItem('First added');
+      await jest.advanceTimersByTimeAsync(50);
+      addItem('Second added');
+      await jest.advanceTimersByTimeAsync(50);
+      addItem('Third added');
+      await jest.advanceTimersByTimeAsync(99);
+      expect(callback).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(texts(callback.mock.calls[0][0])).toEqual(['First added', 'Second added', 'Third added']);
+    });
+
+    it('should flush a continuous stream of mutations after MAX_MUTATION_WAIT', async () => {
+      watch();
+
+      const letters = 'abcdefghijklmno';
+      for (let i = 0; i < letters.length && callback.mock.calls.length === 0; i++) {
+        addItem(`Streamed item ${letters[i]}`);
+        await jest.advanceTimersByTimeAsync(80);
+      }
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(texts(callback.mock.calls[0][0])).toHaveLength(14);
+      expect(texts(callback.mock.calls[0][0])[13]).toBe('Streamed item n');
+    });
+
+    it('should flush on an idle callback in idle mode', async () => {
+      const idleCallbacks: (() => void)[] = [];
+      const requestIdleCallback = jest.fn((flush: () => void) => idleCallbacks.push(flush));
+      const cancelIdleCallback = jest.fn();
+      Object.assign(window, { requestIdleCallback, cancelIdleCallback });
+      try {
+        watch({ mutationDebounce: 'idle' });
+
+        addItem('Added when idle');
+        await jest.advanceTimersByTimeAsync(500);
+        expect(callback).not.toHaveBeenCalled();
+        expect(requestIdleCallback).toHaveBeenCalledWith(expect.any(Function), { timeout: 1000 });
+
+        idleCallbacks[idleCallbacks.length - 1]();
+        expect(texts(callback.mock.calls[0][0])).toEqual(['Added when idle']);
+      } finally {
+        delete (window as Partial<Window>).requestIdleCallback;
+        delete (window as Partial<Window>).cancelIdleCallback;
+      }
+    });
+
+    it('should ignore its own writes and pick up later changes to the source', async () => {
+      watch();
+      const [content] = detector!.getDetectedContent();
+
+      detector!.recordWrite(content, '[Existing item]');
+      content.node!.nodeValue = '[Existing item]';
+      await jest.advanceTimersByTimeAsync(100);
+      expect(callback).not.toHaveBeenCalled();
+
+      content.node!.nodeValue = 'Edited item';
+      await jest.advanceTimersByTimeAsync(100);
+      expect(callback).toHaveBeenCalledWith([content]);
+      expect(content.originalText).toBe('Edited item');
+    });
+
+    it('should not translate its own translations again', async () => {
+      const switcher = createSwitcher({ mutationDebounce: 100 });
+      switcher.startAutoTranslation();
+      await switcher.setLanguage('es');
+      await switcher.translatePage();
+
+      addItem('Added item');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(sent.map(request => request.text)).toEqual(['Existing item', 'Added item']);
+      expect(document.getElementById('list')!.textContent).toBe('[Existing item][Added item]');
+      switcher.stopAutoTranslation();
+    });
+
+    it('should scan only the added subtree', async () => {
+      watch();
+      const scanDocument = jest.spyOn(document, 'querySelectorAll');
+      const scanList = jest.spyOn(document.getElementById('list')!, 'querySelectorAll');
+      try {
+        addItem('Appended item');
+        await jest.advanceTimersByTimeAsync(100);
+
+        expect(texts(callback.mock.calls[0][0])).toEqual(['Appended item']);
+        expect(scanDocument).not.toHaveBeenCalled();
+        expect(scanList).not.toHaveBeenCalled();
+      } finally {
+        scanDocument.mockRestore();
+        scanList.mockRestore();
+      }
+    });
+  });
+
+  describe('removed content', () => {
+    it('should forget content removed from the page and not translate it on a language switch', async () => {
+      document.body.innerHTML = '<section id="feed"></section>';
+      const feed = document.getElementById('feed')!;
+      const switcher = createSwitcher({ mutationDebounce: 10 });
+      switcher.addLanguage('fr', { code: 'fr', name: 'Français' });
+      switcher.startAutoTranslation();
+
+      const pages = ['first', 'second', 'third', 'fourth', 'fifth'];
+      for (const page of pages) {
+        feed.innerHTML = ['one', 'two', 'three'].map(item => `<div>Post ${item} of the ${page} page</div>`).join('');
+        await new Promise(resolve => setTimeout(resolve, 30));
+      }
+
+      const lastPage = ['Post one of the fifth page', 'Post two of the fifth page', 'Post three of the fifth page'];
+      expect(switcher.getDetectedContent().map(content => content.originalText)).toEqual(lastPage);
+
+      await switcher.setLanguage('fr');
+      await switcher.translatePage();
+      expect(sent.map(request => request.text)).toEqual(lastPage);
+      expect(feed.textContent).toBe(lastPage.map(text => `[${text}]`).join(''));
+      switcher.stopAutoTranslation();
+    });
+  });
+
+  describe('shadow roots and iframes', () => {
+    let host: HTMLElement;
+    let frame: HTMLIFrameElement;
+
+    beforeEach(() => {
+      document.body.innerHTML = '<p>Light text</p><div id="host"></div><div id="closed"></div><iframe></iframe>';
+      host = document.getElementById('host')!;
+      host.attachShadow({ mode: 'open' }).innerHTML = '<p>Shadow text</p>';
+      document.getElementById('closed')!.attachShadow({ mode: 'closed' }).innerHTML = '<p>Closed shadow text</p>';
+      frame = document.querySelector('iframe')!;
+      frame.contentDocument!.body.innerHTML = '<p>Frame text</p>';
+    });
+
+    function createDetector(): ContentDetector {
+      return new ContentDetector({
+        defaultLanguage: 'en',
+        traverseShadowRoots: true,
+        traverseIframes: true,
+        mutationDebounce: 10
+      });
+    }
+
+    function texts(content: DetectedContent[]): string[] {
+      return content.map(item => item.originalText);
+    }
+
+    it('should detect content in open shadow roots and same-origin iframes', () => {
+      expect(texts(createDetector().detect()).sort()).toEqual(['Frame text', 'Light text', 'Shadow text']);
+      expect(texts(new ContentDetector({ defaultLanguage: 'en' }).detect())).toEqual(['Light text']);
+    });
+
+    it('should detect content added later inside a shadow root or a reloaded iframe', async () => {
+      const detector = createDetector();
+      const callback = jest.fn();
+      detector.watch(callback);
+      callback.mockClear();
+
+      const added = document.createElement('span');
+      added.textContent = 'Added shadow text';
+      host.shadowRoot!.appendChild(added);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(texts(callback.mock.calls[0][0])).toEqual(['Added shadow text']);
+
+      frame.contentDocument!.body.innerHTML = '<p>Reloaded frame text</p>';
+      callback.mockClear();
+      frame.dispatchEvent(new Event('load'));
+      expect(texts(callback.mock.calls[0][0])).toEqual(['Reloaded frame text']);
+      detector.unwatch();
+    });
+
+    it('should observe each root once and disconnect every observer on unwatch', async () => {
+      const observe = jest.spyOn(MutationObserver.prototype, 'observe');
+      const disconnect = jest.spyOn(MutationObserver.prototype, 'disconnect');
+      const removeListener = jest.spyOn(frame, 'removeEventListener');
+      try {
+        const detector = createDetector();
+        const callback = jest.fn();
+        detector.watch(callback);
+        frame.dispatchEvent(new Event('load'));
+
+        expect(observe.mock.calls.map(([target]) => target))
+          .toEqual([document.body, host.shadowRoot, frame.contentDocument!.body]);
+
+        detector.unwatch();
+        expect(disconnect).toHaveBeenCalledTimes(3);
+        expect(removeListener).toHaveBeenCalledWith('load', expect.any(Function));
+
+        callback.mockClear();
+        host.shadowRoot!.innerHTML = '<p>Text after unwatch</p>';
+        frame.contentDocument!.body.innerHTML = '<p>Frame text after unwatch</p>';
+        frame.dispatchEvent(new Event('load'));
+        await new Promise(resolve => setTimeout(resolve, 30));
+        expect(callback).not.toHaveBeenCalled();
+      } finally {
+        observe.mockRestore();
+        disconnect.mockRestore();
+        removeListener.mockRestore();
+      }
+    });
+  });
+});
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { LanguageSwitcher } from '../src/core/language-switcher';
 import { LanguageConfig, TranslationData } from '../src/types/types';
+import { parseRichText, escapeRichTextValues } from '../src/utils/rich-text';
 
 describe('LanguageSwitcher', () => {
   let languageSwitcher: LanguageSwitcher;
@@ -409,4 +410,401 @@ describe('LanguageSwitcher', () => {
       expect(result).toBe('Hello, John! You have 3 messages.');
     });
   });
+
+  describe('ICU MessageFormat', () => {
+    beforeEach(() => {
+      languageSwitcher.addLanguage('ru', { code: 'ru', name: 'Русский' });
+
+      languageSwitcher.addTranslations('en', {
+        items: '{count, plural, =0 {No items} one {# item} other {# items}}',
+        invite: '{gender, select, female {She invited {name}} male {He invited {name}} other {They invited {name}}}',
+        place: 'You finished {place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}',
+        guests: '{count, plural, offset:1 =0 {Nobody} =1 {{host}} one {{host} and # other} other {{host} and # others}}',
+        quoted: "Don't escape '{braces}' or {{name}}"
+      });
+
+      languageSwitcher.addTranslations('ru', {
+        items: '{count, plural, one {# товар} few {# товара} many {# товаров} other {# товара}}'
+      });
+    });
+
+    it('should format plural messages using CLDR rules', async () => {
+      expect(languageSwitcher.getText('items', { count: 0 })).toBe('No items');
+      expect(languageSwitcher.getText('items', { count: 1 })).toBe('1 item');
+      expect(languageSwitcher.getText('items', { count: 1500 })).toBe('1,500 items');
+
+      await languageSwitcher.setLanguage('ru');
+      expect(languageSwitcher.getText('items', { count: 1 })).toBe('1 товар');
+      expect(languageSwitcher.getText('items', { count: 3 })).toBe('3 товара');
+      expect(languageSwitcher.getText('items', { count: 5 })).toBe('5 товаров');
+    });
+
+    it('should format select and selectordinal messages', () => {
+      expect(languageSwitcher.getText('invite', { gender: 'female', name: 'Ana' })).toBe('She invited Ana');
+      expect(languageSwitcher.getText('invite', { name: 'Sam' })).toBe('They invited Sam');
+      expect(languageSwitcher.getText('place', { place: 2 })).toBe('You finished 2nd');
+      expect(languageSwitcher.getText('place', { place: 13 })).toBe('You finished 13th');
+    });
+
+    it('should support plural offsets and quoting', () => {
+      expect(languageSwitcher.getText('guests', { count: 1, host: 'Ana' })).toBe('Ana');
+      expect(languageSwitcher.getText('guests', { count: 3, host: 'Ana' })).toBe('Ana and 2 others');
+      expect(languageSwitcher.getText('quoted', { name: 'Ana' })).toBe("Don't escape {braces} or Ana");
+    });
+
+    it('should pick up changed translations for cached messages', () => {
+      expect(languageSwitcher.getText('items', { count: 2 })).toBe('2 items');
+
+      languageSwitcher.addTranslations('en', {
+        items: '{count, plural, one {# thing} other {# things}}'
+      });
+
+      expect(languageSwitcher.getText('items', { count: 2 })).toBe('2 things');
+    });
+
+    it('should let a custom interpolation function override MessageFormat', () => {
+      languageSwitcher.setInterpolationFunction((text) => text.toUpperCase());
+
+      expect(languageSwitcher.getText('items', { count: 1 })).toBe(
+        '{COUNT, PLURAL, =0 {NO ITEMS} ONE {# ITEM} OTHER {# ITEMS}}'
+      );
+    });
+  });
+
+  describe('Namespaced Loading', () => {
+    beforeEach(() => {
+      languageSwitcher.addLanguage('es', { code: 'es', name: 'Español' });
+    });
+
+    it('should resolve namespaced keys', () => {
+      languageSwitcher.addTranslations('en', { button: { pay: 'Pay now' } }, 'checkout');
+
+      expect(languageSwitcher.getText('checkout:button.pay')).toBe('Pay now');
+      expect(languageSwitcher.isNamespaceLoaded('checkout')).toBe(true);
+    });
+
+    it('should load namespaces in use when switching language', async () => {
+      const loader = jest.fn(async (language: string) => ({
+        button: { pay: language === 'es' ? 'Pagar' : 'Pay now' }
+      }));
+      languageSwitcher.registerLoader('*', 'checkout', loader);
+
+      await languageSwitcher.loadNamespaces(['checkout']);
+      expect(languageSwitcher.getText('checkout:button.pay')).toBe('Pay now');
+
+      await languageSwitcher.setLanguage('es');
+      expect(languageSwitcher.getText('checkout:button.pay')).toBe('Pagar');
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('should dedupe in-flight loads and report loading state', async () => {
+      const onNamespaceLoaded = jest.fn();
+      const switcher = new LanguageSwitcher({ defaultLanguage: 'en', onNamespaceLoaded });
+      const loader = jest.fn(async () => ({ title: 'Cart' }));
+      switcher.registerLoader('en', 'cart', loader);
+
+      expect(switcher.getText('cart:title')).toBe('cart:title');
+      expect(switcher.isLoading()).toBe(true);
+
+      await Promise.all([switcher.loadNamespaces(['cart']), switcher.loadNamespaces(['cart'])]);
+
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(switcher.isLoading()).toBe(false);
+      expect(onNamespaceLoaded).toHaveBeenCalledWith('en', 'cart');
+      expect(switcher.getText('cart:title')).toBe('Cart');
+    });
+
+    it('should not reload a failed namespace until loaded explicitly', async () => {
+      const failed = jest.fn();
+      const onMissingKey = jest.fn();
+      const switcher = new LanguageSwitcher({ defaultLanguage: 'en', onMissingKey });
+      const loader = jest.fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ title: 'Cart' });
+      switcher.registerLoader('en', 'cart', loader);
+      switcher.on('namespaceLoadFailed', failed);
+
+      expect(switcher.getText('cart:title')).toBe('cart:title');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(failed).toHaveBeenCalledWith({ language: 'en', namespace: 'cart', error: expect.any(Error) });
+      expect(onMissingKey).toHaveBeenCalledWith('en', 'cart:title', 'cart');
+
+      for (let i = 0; i < 5; i++) {
+        switcher.getText('cart:title');
+      }
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(switcher.isLoading()).toBe(false);
+
+      await switcher.loadNamespaces(['cart']);
+      expect(loader).toHaveBeenCalledTimes(2);
+      expect(switcher.getText('cart:title')).toBe('Cart');
+    });
+  });
+
+  describe('Events', () => {
+    beforeEach(() => {
+      languageSwitcher.addLanguage('es', { code: 'es', name: 'Español' });
+    });
+
+    it('should notify every languageChanged subscriber', async () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      languageSwitcher.on('languageChanged', first);
+      languageSwitcher.on('languageChanged', second);
+
+      await languageSwitcher.setLanguage('es');
+
+      expect(first).toHaveBeenCalledWith({ language: 'es', previousLanguage: 'en' });
+      expect(second).toHaveBeenCalledWith({ language: 'es', previousLanguage: 'en' });
+    });
+
+    it('should stop notifying after unsubscribe and support once', async () => {
+      const handler = jest.fn();
+      const onceHandler = jest.fn();
+      const unsubscribe = languageSwitcher.on('languageChanging', handler);
+      languageSwitcher.once('languageChanged', onceHandler);
+
+      await languageSwitcher.setLanguage('es');
+      unsubscribe();
+      await languageSwitcher.setLanguage('en');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(onceHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove a once handler with off', () => {
+      const handler = jest.fn();
+      languageSwitcher.once('translationsAdded', handler);
+      languageSwitcher.off('translationsAdded', handler);
+
+      languageSwitcher.addTranslations('en', { hello: 'Hello' });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should emit translationsAdded and missingKey', () => {
+      const added = jest.fn();
+      const missing = jest.fn();
+      languageSwitcher.on('translationsAdded', added);
+      languageSwitcher.on('missingKey', missing);
+
+      languageSwitcher.addTranslations('en', { welcome: 'Welcome' });
+      languageSwitcher.getText('checkout:button.pay');
+
+      expect(added).toHaveBeenCalledWith({ language: 'en', namespace: undefined });
+      expect(missing).toHaveBeenCalledWith({ language: 'en', key: 'checkout:button.pay', namespace: 'checkout' });
+    });
+
+    it('should call the onLanguageChange option', async () => {
+      const onLanguageChange = jest.fn();
+      const switcher = new LanguageSwitcher({ defaultLanguage: 'en', onLanguageChange });
+      switcher.addLanguage('es', { code: 'es', name: 'Español' });
+
+      await switcher.setLanguage('es');
+
+      expect(onLanguageChange).toHaveBeenCalledWith('es');
+    });
+  });
+
+  describe('Fallback Chains', () => {
+    let switcher: LanguageSwitcher;
+
+    beforeEach(() => {
+      switcher = new LanguageSwitcher({
+        defaultLanguage: 'en',
+        fallbacks: { pt: ['es'] }
+      });
+
+      switcher.addLanguage('pt-BR', { code: 'pt-BR', name: 'Português (Brasil)' });
+      switcher.addTranslations('en', { welcome: 'Welcome', goodbye: 'Goodbye', thanks: 'Thanks' });
+      switcher.addTranslations('es', { welcome: 'Bienvenido', goodbye: 'Adiós' });
+      switcher.addTranslations('pt', { welcome: 'Bem-vindo' });
+    });
+
+    it('should derive the chain from subtags and configured fallbacks', () => {
+      expect(switcher.getFallbackChain('pt-BR')).toEqual(['pt-BR', 'pt', 'es', 'en']);
+      expect(switcher.getFallbackChain('zh-Hant-TW')).toEqual(['zh-Hant-TW', 'zh-Hant', 'zh', 'en']);
+    });
+
+    it('should resolve keys through the chain', async () => {
+      await switcher.setLanguage('pt-BR');
+
+      expect(switcher.getText('welcome')).toBe('Bem-vindo');
+      expect(switcher.getText('goodbye')).toBe('Adiós');
+      expect(switcher.getText('thanks')).toBe('Thanks');
+    });
+
+    it('should report which language supplied a key', () => {
+      expect(switcher.resolveKey('goodbye', 'pt-BR')).toEqual({
+        key: 'goodbye',
+        namespace: undefined,
+        chain: ['pt-BR', 'pt', 'es', 'en'],
+        resolvedLanguage: 'es',
+        value: 'Adiós'
+      });
+      expect(switcher.resolveKey('missing', 'pt-BR').resolvedLanguage).toBeUndefined();
+    });
+
+    it('should let a language override its derived fallbacks', () => {
+      const overridden = new LanguageSwitcher({
+        defaultLanguage: 'en',
+        fallbacks: { 'pt-BR': ['en'] }
+      });
+
+      expect(overridden.getFallbackChain('pt-BR')).toEqual(['pt-BR', 'en']);
+    });
+  });
+
+  describe('Missing Keys', () => {
+    it('should call onMissingKey once per language and key', async () => {
+      const onMissingKey = jest.fn();
+      const switcher = new LanguageSwitcher({ defaultLanguage: 'en', onMissingKey });
+      switcher.addLanguage('es', { code: 'es', name: 'Español' });
+
+      switcher.getText('checkout:button.pay');
+      switcher.getText('checkout:button.pay');
+      await switcher.setLanguage('es');
+      switcher.getText('checkout:button.pay');
+
+      expect(onMissingKey).toHaveBeenCalledTimes(2);
+      expect(onMissingKey).toHaveBeenCalledWith('en', 'checkout:button.pay', 'checkout');
+      expect(onMissingKey).toHaveBeenCalledWith('es', 'checkout:button.pay', 'checkout');
+      expect(switcher.getMissingKeys('en')[0].count).toBe(2);
+    });
+
+    it('should export a report and a skeleton translation tree', async () => {
+      const switcher = new LanguageSwitcher({ defaultLanguage: 'en', fallbackLanguage: undefined });
+      switcher.addLanguage('es', { code: 'es', name: 'Español' });
+      switcher.addTranslations('en', { nav: { home: 'Home' } }, 'common');
+      await switcher.setLanguage('es');
+
+      switcher.getText('common:nav.home');
+      switcher.getText('title');
+
+      const report = switcher.exportMissingKeys();
+      expect(report.total).toBe(2);
+      expect(report.languages.es.map(entry => entry.key)).toEqual(['common:nav.home', 'title']);
+
+      expect(switcher.exportMissingKeysSkeleton('es')).toEqual({
+        common: { nav: { home: 'Home' } },
+        title: ''
+      });
+    });
+
+    it('should flush new misses after the debounce delay', async () => {
+      jest.useFakeTimers();
+      const onMissingKeysFlush = jest.fn();
+      const switcher = new LanguageSwitcher({
+        defaultLanguage: 'en',
+        onMissingKeysFlush,
+        missingKeysFlushDelay: 500
+      });
+
+      switcher.getText('first');
+      jest.advanceTimersByTime(300);
+      switcher.getText('second');
+      switcher.getText('first');
+      expect(onMissingKeysFlush).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(500);
+      jest.useRealTimers();
+
+      expect(onMissingKeysFlush).toHaveBeenCalledTimes(1);
+      expect(onMissingKeysFlush.mock.calls[0][0].map((entry: { key: string }) => entry.key)).toEqual(['first', 'second']);
+    });
+  });
+
+  describe('Translation Overrides', () => {
+    it('should load overrides from options and JSON and look them up by normalised source', () => {
+      const switcher = new LanguageSwitcher({
+        defaultLanguage: 'en',
+        translationOverrides: [{ source: 'Sign up', language: 'de', translation: 'Registrieren' }]
+      });
+      const overrides = switcher.getTranslationOverrides();
+      overrides.load(JSON.stringify([{ source: 'Log in', language: 'de', translation: 'Anmelden' }]));
+
+      expect(overrides.get('  Sign   up ', 'de')?.translation).toBe('Registrieren');
+      expect(overrides.get('Log in', 'de-AT')?.translation).toBe('Anmelden');
+      expect(overrides.get('Log in', 'fr')).toBeUndefined();
+      expect(overrides.toJSON()).toHaveLength(2);
+    });
+
+    it('should prefer the most specific matching scope', () => {
+      const overrides = languageSwitcher.getTranslationOverrides();
+      overrides.set({ source: 'Plans', language: 'de', translation: 'Tarife' });
+      overrides.set({ source: 'Plans', language: 'de', translation: 'Pläne', route: '/docs/*' });
+      overrides.set({ source: 'Plans', language: 'de', translation: 'Abos', selector: 'nav' });
+
+      const inNav = { closest: (selector: string) => (selector === 'nav' ? {} : null) } as unknown as Element;
+      expect(overrides.get('Plans', 'de', { route: '/pricing' })?.translation).toBe('Tarife');
+      expect(overrides.get('Plans', 'de', { route: '/docs/api' })?.translation).toBe('Pläne');
+      expect(overrides.get('Plans', 'de', { route: '/docs/api', element: inNav })?.translation).toBe('Abos');
+    });
+
+    it('should replace overrides with the same scope and remove them', () => {
+      const overrides = languageSwitcher.getTranslationOverrides();
+      overrides.set({ source: 'Cart', language: 'de', translation: 'Karre' });
+      overrides.set({ source: 'Cart', language: 'de', translation: 'Warenkorb' });
+
+      expect(overrides.size()).toBe(1);
+      expect(overrides.get('Cart', 'de')?.translation).toBe('Warenkorb');
+      expect(overrides.remove('Cart', 'de')).toBe(true);
+      expect(overrides.get('Cart', 'de')).toBeUndefined();
+      expect(languageSwitcher.getTranslationStats()).toEqual({ human: 0, machine: 0 });
+    });
+  });
+
+  describe('Translation Editor', () => {
+    it('should set a single key without replacing its siblings', () => {
+      languageSwitcher.addTranslations('de', { nav: { title: 'Titel', home: 'Start' } });
+      const added = jest.fn();
+      languageSwitcher.on('translationsAdded', added);
+
+      languageSwitcher.setTranslation('nav.title', 'Überschrift', 'de');
+      languageSwitcher.setTranslation('footer.legal.imprint', 'Impressum', 'de');
+
+      expect(languageSwitcher.translations.de).toEqual({
+        nav: { title: 'Überschrift', home: 'Start' },
+        footer: { legal: { imprint: 'Impressum' } }
+      });
+      expect(added).toHaveBeenCalledWith({ language: 'de', namespace: undefined });
+    });
+
+    it('should not open the editor without a DOM', () => {
+      const switcher = new LanguageSwitcher({ defaultLanguage: 'en', editor: true });
+
+      expect(switcher.isEditorEnabled()).toBe(false);
+      expect(switcher.exportEditorPatch()).toEqual([]);
+    });
+  });
+
+  describe('Rich Text', () => {
+    it('should parse nested and self-closing tags from formatted messages', () => {
+      languageSwitcher.addTranslations('en', {
+        cart: '{count, plural, one {<b>#</b> item} other {<b>#</b> items}} in your <link>cart<br/></link>'
+      });
+
+      expect(parseRichText(languageSwitcher.getText('cart', { count: 2 }))).toEqual([
+        { type: 'tag', name: 'b', selfClosing: false, children: [{ type: 'text', value: '2' }] },
+        { type: 'text', value: ' items in your ' },
+        {
+          type: 'tag',
+          name: 'link',
+          selfClosing: false,
+          children: [
+            { type: 'text', value: 'cart' },
+            { type: 'tag', name: 'br', selfClosing: true, children: [] }
+          ]
+        }
+      ]);
+    });
+
+    it('should keep malformed tags and tags from values as text', () => {
+      languageSwitcher.addTranslations('en', { greeting: 'Hi {name}, 1 < 2 </b> <i>open' });
+      const text = languageSwitcher.getText('greeting', escapeRichTextValues({ name: '<b>Eve</b>' }));
+
+      expect(parseRichText(text)).toEqual([{ type: 'text', value: 'Hi <b>Eve</b>, 1 < 2 </b> <i>open' }]);
+    });
+  });
 }); 
\ No newline at end of file
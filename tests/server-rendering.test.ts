@@ -0,0 +1,45 @@
+/**
+ * @jest-environment node
+ */
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { LanguageProvider } from '../src/components/components';
+import { LanguageSwitcher } from '../src/core/language-switcher';
+import { LanguageSwitcherContext, useLanguage, useTranslation } from '../src/hooks/useLanguage';
+
+// react-dom/server needs Node's MessageChannel, which jsdom does not provide
+describe('Server rendering', () => {
+  const options = { defaultLanguage: 'en', persistLanguage: false };
+
+  function Greeting() {
+    const { t, currentLanguage } = useLanguage();
+    return createElement('p', null, `${currentLanguage}: ${t('hello')}`);
+  }
+
+  it('should render a LanguageProvider translated', () => {
+    const switcher = new LanguageSwitcher(options);
+    switcher.addTranslations('en', { hello: 'Hi' });
+
+    const html = renderToStaticMarkup(createElement('div', null,
+      createElement(LanguageProvider, {
+        options: { ...options, defaultLanguage: 'de' },
+        translations: { de: { hello: 'Hallo' } },
+        children: createElement(Greeting)
+      }),
+      createElement(LanguageProvider, { switcher, children: createElement(Greeting) })
+    ));
+
+    expect(html).toBe('<div><p>de: Hallo</p><p>en: Hi</p></div>');
+  });
+
+  it('should render the instance language', () => {
+    const switcher = new LanguageSwitcher({ ...options, defaultLanguage: 'de' });
+    switcher.addTranslations('de', { hello: 'Hallo' });
+
+    const html = renderToStaticMarkup(createElement(LanguageSwitcherContext.Provider, { value: switcher },
+      createElement(() => createElement('p', null, `${useLanguage().currentLanguage}: ${useTranslation('hello')}`))
+    ));
+
+    expect(html).toBe('<p>de: Hallo</p>');
+  });
+});
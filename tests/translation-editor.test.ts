@@ -0,0 +1,139 @@
+/**
+ * @jest-environment jsdom
+ */
+import { LanguageSwitcher } from '../src/core/language-switcher';
+import { registerTranslationProvider, unregisterTranslationProvider } from '../src/providers';
+
+describe('TranslationEditor', () => {
+  let switcher: LanguageSwitcher;
+  let onChange: jest.Mock;
+
+  beforeAll(() => {
+    registerTranslationProvider('brackets', () => ({
+      translate: async request => ({ translatedText: `[${request.text}]` })
+    }));
+  });
+
+  afterAll(() => {
+    unregisterTranslationProvider('brackets');
+  });
+
+  beforeEach(async () => {
+    document.body.innerHTML = '<a href="/home" id="key" data-i18n-key="nav.title">Titel</a><p id="text">Welcome</p>';
+    onChange = jest.fn();
+    switcher = new LanguageSwitcher({
+      defaultLanguage: 'en',
+      persistLanguage: false,
+      translationApi: { provider: 'brackets' }
+    });
+    switcher.addLanguage('de', { code: 'de', name: 'Deutsch' });
+    switcher.addTranslations('en', { nav: { title: 'Title' } });
+    switcher.addTranslations('de', { nav: { title: 'Titel' } });
+    await switcher.setLanguage('de');
+    await switcher.translateElement(document.getElementById('text')!);
+    switcher.enableEditor({ highlightColor: '#ff0000', onChange });
+  });
+
+  afterEach(() => {
+    switcher.disableEditor();
+  });
+
+  function hover(element: Element): void {
+    element.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }));
+  }
+
+  function click(element: Element): MouseEvent {
+    const event = new MouseEvent('click', { bubbles: true, cancelable: true });
+    element.dispatchEvent(event);
+    return event;
+  }
+
+  function getPanel(): HTMLElement {
+    return document.querySelector<HTMLElement>('.dls-editor-ui')!;
+  }
+
+  function getButton(label: string): HTMLButtonElement {
+    return Array.from(getPanel().querySelectorAll('button')).find(button => button.textContent === label)!;
+  }
+
+  it('should highlight editable elements until disabled', () => {
+    expect(document.documentElement.classList.contains('dls-editor')).toBe(true);
+    expect(document.head.querySelector('style')!.textContent).toContain('outline: 1px dashed #ff0000');
+
+    switcher.disableEditor();
+
+    expect(document.documentElement.classList.contains('dls-editor')).toBe(false);
+    expect(document.head.querySelector('style')).toBeNull();
+  });
+
+  it('should show the key and its source text on hover', () => {
+    hover(document.getElementById('key')!);
+    expect(getPanel().textContent).toBe('Key: nav.title (de)\nSource: Title');
+
+    hover(document.getElementById('text')!);
+    expect(getPanel().textContent).toBe('Text · brackets\nSource: Welcome');
+
+    hover(document.body);
+    expect(getPanel()).toBeNull();
+  });
+
+  it('should open a panel instead of following a clicked link', () => {
+    const event = click(document.getElementById('key')!);
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(getPanel().querySelector('label')!.textContent).toBe('Key: nav.title (de) — Title');
+    expect(getPanel().querySelector('textarea')!.value).toBe('Titel');
+  });
+
+  it('should save key edits through setTranslation without writing to the element', () => {
+    const element = document.getElementById('key')!;
+    click(element);
+    getPanel().querySelector('textarea')!.value = 'Überschrift';
+    click(getButton('Save'));
+
+    expect(switcher.getText('nav.title')).toBe('Überschrift');
+    expect(element.textContent).toBe('Titel');
+    expect(getPanel()).toBeNull();
+    expect(onChange).toHaveBeenCalledWith([{ key: 'nav.title', language: 'de', value: 'Überschrift' }]);
+  });
+
+  it('should save auto-translated text as an override', async () => {
+    click(document.getElementById('text')!);
+    expect(getPanel().querySelector('textarea')!.value).toBe('[Welcome]');
+    getPanel().querySelector('textarea')!.value = 'Willkommen';
+    click(getButton('Save'));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(switcher.getTranslationOverrides().get('Welcome', 'de')?.translation).toBe('Willkommen');
+    expect(document.getElementById('text')!.textContent).toBe('Willkommen');
+    expect(switcher.getTranslationStats()).toEqual({ human: 1, machine: 0 });
+  });
+
+  it('should discard edits on Cancel', () => {
+    click(document.getElementById('key')!);
+    getPanel().querySelector('textarea')!.value = 'Überschrift';
+    click(getButton('Cancel'));
+
+    expect(getPanel()).toBeNull();
+    expect(switcher.getText('nav.title')).toBe('Titel');
+    expect(onChange).not.toHaveBeenCalled();
+    expect(switcher.exportEditorPatch()).toEqual([]);
+  });
+
+  it('should export the latest edit per key and source as a JSON patch', () => {
+    const edit = (id: string, value: string) => {
+      click(document.getElementById(id)!);
+      getPanel().querySelector('textarea')!.value = value;
+      click(getButton('Save'));
+    };
+
+    edit('key', 'Kopf');
+    edit('text', 'Willkommen');
+    edit('key', 'Überschrift');
+
+    expect(switcher.exportEditorPatch()).toEqual([
+      { op: 'add', path: '/overrides/-', value: { source: 'Welcome', language: 'de', translation: 'Willkommen' } },
+      { op: 'add', path: '/translations/de/nav/title', value: 'Überschrift' }
+    ]);
+  });
+});
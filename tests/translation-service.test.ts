@@ -0,0 +1,664 @@
+import { TranslationService } from '../src/utils/translation-service';
+import { FileCacheStore } from '../src/utils/file-cache-store';
+import { registerTranslationProvider, unregisterTranslationProvider } from '../src/providers';
+import { TranslationRequest, TranslationCacheEntry, TranslationCacheStore } from '../src/types/types';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+function mockFetch(handler: (body: URLSearchParams) => unknown) {
+  const fetchMock = jest.fn(async (_url: string, init: { body: URLSearchParams }) => ({
+    ok: true,
+    status: 200,
+    json: async () => handler(init.body)
+  }));
+  stubFetch(fetchMock);
+  return fetchMock;
+}
+
+function stubFetch(fetchMock: jest.Mock) {
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+}
+
+function requests(texts: string[], toLanguage = 'es'): TranslationRequest[] {
+  return texts.map(text => ({ text, fromLanguage: 'en', toLanguage }));
+}
+
+describe('TranslationService', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe('translateBatch', () => {
+    it('should send multiple texts in a single DeepL request', async () => {
+      const fetchMock = mockFetch(body => ({
+        translations: body.getAll('text').map(text => ({ text: `[es] ${text}` }))
+      }));
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key' });
+
+      const responses = await service.translateBatch(requests(['Hello', 'World']));
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(responses.map(response => response.translatedText)).toEqual(['[es] Hello', '[es] World']);
+    });
+
+    it('should collapse identical texts and keep response order', async () => {
+      const fetchMock = mockFetch(body => ({
+        translations: body.getAll('text').map(text => ({ text: text.toUpperCase() }))
+      }));
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key' });
+
+      const responses = await service.translateBatch(requests(['a', 'b', 'a', 'c', 'b']));
+
+      expect((fetchMock.mock.calls[0][1].body as URLSearchParams).getAll('text')).toEqual(['a', 'b', 'c']);
+      expect(responses.map(response => response.translatedText)).toEqual(['A', 'B', 'A', 'C', 'B']);
+    });
+
+    it('should chunk by batchSize and language pair with bounded concurrency', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const fetchMock = jest.fn(async (_url: string, init: { body: URLSearchParams }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({
+            translations: init.body.getAll('text').map(text => ({ text: `${init.body.get('target_lang')}:${text}` }))
+          })
+        };
+      });
+      stubFetch(fetchMock);
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', batchSize: 2, maxConcurrency: 2 });
+
+      const texts = ['1', '2', '3', '4', '5'];
+      const responses = await service.translateBatch([...requests(texts, 'es'), ...requests(['6'], 'fr')]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(maxInFlight).toBe(2);
+      expect(responses.map(response => response.translatedText)).toEqual(['ES:1', 'ES:2', 'ES:3', 'ES:4', 'ES:5', 'FR:6']);
+    });
+
+    it('should fall back to the source text when a chunk fails', async () => {
+      stubFetch(jest.fn(async () => ({ ok: false, status: 500, json: async () => ({}) })));
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', retries: 0 });
+
+      const responses = await service.translateBatch(requests(['Hello']));
+
+      expect(responses).toEqual([{ translatedText: 'Hello', confidence: 0, detectedLanguage: 'en' }]);
+    });
+  });
+
+  describe('rate limiting', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should allow rateLimit requests per second and queue the rest', async () => {
+      const fetchMock = mockFetch(body => ({
+        translations: body.getAll('text').map(text => ({ text }))
+      }));
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', rateLimit: 2 });
+
+      const pending = ['a', 'b', 'c'].map(text => service.translate({ text, fromLanguage: 'en', toLanguage: 'es' }));
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(service.getQueueDepth()).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(service.getQueueDepth()).toBe(0);
+      await Promise.all(pending);
+    });
+
+    it('should pause requests for the Retry-After of a 429 response', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '2' }), json: async () => ({}) })
+        .mockResolvedValue({ ok: true, status: 200, json: async () => ({ translations: [{ text: 'Hola' }] }) });
+      stubFetch(fetchMock);
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', retries: 0 });
+
+      await expect(service.translate({ text: 'Hello', fromLanguage: 'en', toLanguage: 'es' })).rejects.toThrow('429');
+
+      const pending = service.translate({ text: 'Hello', fromLanguage: 'en', toLanguage: 'es' });
+      await jest.advanceTimersByTimeAsync(1900);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(100);
+      await expect(pending).resolves.toMatchObject({ translatedText: 'Hola' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retries and failover', () => {
+    const request = { text: 'Hello', fromLanguage: 'en', toLanguage: 'es' };
+
+    it('should retry transient failures with backoff', async () => {
+      const fetchMock = jest.fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) })
+        .mockResolvedValue({ ok: true, status: 200, json: async () => ({ translations: [{ text: 'Hola' }] }) });
+      stubFetch(fetchMock);
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', retries: 2, retryDelay: 1 });
+
+      await expect(service.translate(request)).resolves.toMatchObject({ translatedText: 'Hola', provider: 'deepl' });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const fetchMock = jest.fn(async () => ({ ok: false, status: 403, json: async () => ({}) }));
+      stubFetch(fetchMock);
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', retryDelay: 1 });
+
+      await expect(service.translate(request)).rejects.toThrow('403');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a provider that is not configured', async () => {
+      const fetchMock = jest.fn();
+      stubFetch(fetchMock);
+      const service = new TranslationService({ provider: 'custom', retries: 3, retryDelay: 1000 });
+
+      await expect(service.translate(request)).rejects.toThrow('Custom endpoint not configured');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should fail over to the next provider and record which one served', async () => {
+      const fetchMock = jest.fn(async (url: string) => url.includes('deepl')
+        ? { ok: false, status: 500, json: async () => ({}) }
+        : { ok: true, status: 200, json: async () => ({ translatedText: 'Hola' }) });
+      stubFetch(fetchMock);
+      const service = new TranslationService([
+        { provider: 'deepl', apiKey: 'key', retries: 1, retryDelay: 1 },
+        { provider: 'custom', endpoint: 'https://mt.example.com/translate' }
+      ]);
+      const onFailed = jest.fn();
+      service.on('translationFailed', onFailed);
+
+      const [response] = await service.translateBatch([request]);
+
+      expect(response).toMatchObject({ translatedText: 'Hola', provider: 'custom' });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(onFailed).not.toHaveBeenCalled();
+    });
+
+    it('should share the concurrency limit with fallbacks and only fail over failed sub-chunks', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const fetchMock = jest.fn(async (url: string, init: { body: string }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        if (url.includes('deepl')) {
+          return { ok: false, status: 500, json: async () => ({}) };
+        }
+        const { text } = JSON.parse(init.body);
+        if (url.includes('first') && text === 'b') {
+          return { ok: false, status: 500, json: async () => ({}) };
+        }
+        return { ok: true, status: 200, json: async () => ({ translatedText: `${text}!` }) };
+      });
+      stubFetch(fetchMock);
+      const service = new TranslationService([
+        { provider: 'deepl', apiKey: 'key', retries: 0, maxConcurrency: 2 },
+        { provider: 'custom', endpoint: 'https://first.example.com/translate', retries: 0 },
+        { provider: 'custom', endpoint: 'https://second.example.com/translate', retries: 0 }
+      ]);
+
+      const responses = await service.translateBatch(requests(['a', 'b', 'c', 'd']));
+
+      expect(responses.map(response => response.translatedText)).toEqual(['a!', 'b!', 'c!', 'd!']);
+      expect(maxInFlight).toBe(2);
+      const secondCalls = fetchMock.mock.calls.filter(([url]) => url.includes('second'));
+      expect(secondCalls.map(([, init]) => JSON.parse(init.body).text)).toEqual(['b']);
+    });
+
+    it('should emit a single failure event once all providers are exhausted', async () => {
+      stubFetch(jest.fn(async () => ({ ok: false, status: 500, json: async () => ({}) })));
+      const service = new TranslationService([
+        { provider: 'deepl', apiKey: 'key', retries: 0 },
+        { provider: 'custom', endpoint: 'https://mt.example.com/translate', retries: 0 }
+      ]);
+      const onFailed = jest.fn();
+      service.on('translationFailed', onFailed);
+
+      const responses = await service.translateBatch([request, { ...request, text: 'World' }]);
+
+      expect(responses.map(response => response.translatedText)).toEqual(['Hello', 'World']);
+      expect(onFailed).toHaveBeenCalledTimes(1);
+      expect(onFailed.mock.calls[0][0]).toMatchObject({ texts: ['Hello', 'World'], providers: ['deepl', 'custom'] });
+    });
+  });
+
+  describe('caching', () => {
+    const request = { text: 'Hello', fromLanguage: 'en', toLanguage: 'es' };
+
+    function createStore(): TranslationCacheStore & { data: Map<string, TranslationCacheEntry> } {
+      const data = new Map<string, TranslationCacheEntry>();
+      return {
+        data,
+        get: async key => data.get(key),
+        set: async (key, entry) => { data.set(key, entry); },
+        delete: async key => { data.delete(key); },
+        keys: async () => Array.from(data.keys()),
+        clear: async () => data.clear()
+      };
+    }
+
+    it('should serve repeated and whitespace-variant texts from memory', async () => {
+      const fetchMock = mockFetch(body => ({
+        translations: body.getAll('text').map(text => ({ text: `[es] ${text}` }))
+      }));
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', cache: true });
+
+      await service.translate(request);
+      const responses = await service.translateBatch([request, { ...request, text: '  Hello \n' }, { ...request, text: 'World' }]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect((fetchMock.mock.calls[1][1].body as URLSearchParams).getAll('text')).toEqual(['World']);
+      expect(responses.map(response => response.translatedText)).toEqual(['[es] Hello', '[es] Hello', '[es] World']);
+      expect(service.getCacheStats()).toMatchObject({ hits: 2, misses: 2, memoryHits: 2 });
+    });
+
+    it('should read through to the persistent store and honour TTLs', async () => {
+      const fetchMock = mockFetch(() => ({ translations: [{ text: 'Hola' }] }));
+      const store = createStore();
+      await new TranslationService({ provider: 'deepl', apiKey: 'key', cache: { store } }).translate(request);
+
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', cache: { store, ttl: 1000 } });
+      await service.translate(request);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(service.getCacheStats()?.persistentHits).toBe(1);
+
+      store.data.forEach(entry => { entry.expiresAt = Date.now() - 1; });
+      const expired = new TranslationService({ provider: 'deepl', apiKey: 'key', cache: { store } });
+      await expired.translate(request);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate matching entries', async () => {
+      const fetchMock = mockFetch(() => ({ translations: [{ text: 'Hola' }] }));
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', cache: true });
+
+      await service.translate(request);
+      await service.invalidateCache({ toLanguage: 'fr' });
+      await service.translate(request);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await service.invalidateCache({ text: 'Hello' });
+      await service.translate(request);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should persist entries to a JSON file with the Node file store', async () => {
+      const filePath = path.join(os.tmpdir(), `dls-cache-${Date.now()}`, 'cache.json');
+      const entry = { response: { translatedText: 'Hola' }, createdAt: 1 };
+
+      await new FileCacheStore(filePath).set('deepl|en|es|abc', entry);
+
+      await expect(new FileCacheStore(filePath).get('deepl|en|es|abc')).resolves.toEqual(entry);
+      await fs.rm(path.dirname(filePath), { recursive: true, force: true });
+    });
+
+    it('should batch concurrent changes into one file write', async () => {
+      const filePath = path.join(os.tmpdir(), `dls-cache-${Date.now()}`, 'cache.json');
+      const writeFile = jest.spyOn(fs, 'writeFile');
+      const store = new FileCacheStore(filePath);
+
+      await Promise.all(['a', 'b', 'c'].map(key => store.set(key, { response: { translatedText: key }, createdAt: 1 })));
+
+      expect(writeFile).toHaveBeenCalledTimes(1);
+      await expect(new FileCacheStore(filePath).keys()).resolves.toEqual(['a', 'b', 'c']);
+      writeFile.mockRestore();
+      await fs.rm(path.dirname(filePath), { recursive: true, force: true });
+    });
+
+    it('should cap the persistent store at maxEntries', async () => {
+      mockFetch(body => ({ translations: body.getAll('text').map(text => ({ text: `[es] ${text}` })) }));
+      const store = createStore();
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key', cache: { store, maxEntries: 2 } });
+
+      await service.translate({ ...request, text: 'One' });
+      await service.translate({ ...request, text: 'Two' });
+      await service.translate({ ...request, text: 'Three' });
+
+      const cached = Array.from(store.data.values()).map(entry => entry.response.translatedText);
+      expect(cached).toEqual(['[es] Two', '[es] Three']);
+    });
+
+    it('should key entries by format, term settings and the provider that served them', async () => {
+      const fetchMock = jest.fn(async (url: string) => url.includes('deepl')
+        ? { ok: false, status: 403, json: async () => ({}) }
+        : { ok: true, status: 200, json: async () => ({ translatedText: 'Hola' }) });
+      stubFetch(fetchMock);
+      const store = createStore();
+      const config = [
+        { provider: 'deepl', apiKey: 'key', cache: { store } },
+        { provider: 'custom', endpoint: 'https://mt.example.com/translate' }
+      ];
+      const service = new TranslationService(config);
+
+      await service.translate(request);
+      await service.translate({ ...request, format: 'html' });
+      await service.translate(request);
+      expect(Array.from(store.data.keys()).every(key => key.startsWith('custom|en|es|'))).toBe(true);
+      expect(store.data.size).toBe(2);
+
+      const withGlossary = new TranslationService(config.map(entry => ({ ...entry, protectedTerms: ['Acme'] })));
+      await withGlossary.translate(request);
+      expect(store.data.size).toBe(3);
+    });
+  });
+
+  describe('Google Cloud provider', () => {
+    // Request fields of the v2 (`q`, `source`, `target`) and v3 (`contents`, …) APIs
+    interface GoogleRequest {
+      q?: string[];
+      source?: string;
+      target?: string;
+      format?: string;
+      contents?: string[];
+      sourceLanguageCode?: string;
+      targetLanguageCode?: string;
+      mimeType?: string;
+      model?: string;
+    }
+
+    let server: http.Server;
+    let endpoint: string;
+    let received: { url: string; body: GoogleRequest }[];
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+          const body: GoogleRequest = JSON.parse(raw);
+          received.push({ url: req.url || '', body });
+
+          const texts = body.q || body.contents || [];
+          const translations = texts.map(text => ({
+            translatedText: `${body.target || body.targetLanguageCode}:${text}`,
+            detectedSourceLanguage: body.q && !body.source ? 'EN' : undefined,
+            detectedLanguageCode: body.contents && !body.sourceLanguageCode ? 'en' : undefined
+          }));
+
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(body.q ? { data: { translations } } : { translations }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      received = [];
+    });
+
+    it('should send a native q[] batch to the v2 API with the API key', async () => {
+      const service = new TranslationService({
+        provider: 'google-cloud',
+        apiKey: 'secret',
+        endpoint,
+        model: 'nmt',
+        format: 'html'
+      });
+
+      const responses = await service.translateBatch(requests(['Hello', '<b>World</b>']));
+
+      expect(received).toHaveLength(1);
+      expect(received[0].url).toBe('/language/translate/v2?key=secret');
+      expect(received[0].body).toEqual({ q: ['Hello', '<b>World</b>'], source: 'en', target: 'es', format: 'html', model: 'nmt' });
+      expect(responses.map(response => response.translatedText)).toEqual(['es:Hello', 'es:<b>World</b>']);
+      expect(responses[0].provider).toBe('google-cloud');
+    });
+
+    it('should let a request override the configured format', async () => {
+      const service = new TranslationService({ provider: 'google-cloud', apiKey: 'secret', endpoint });
+
+      await service.translate({ text: 'Read our <x1>terms</x1>', fromLanguage: 'en', toLanguage: 'es', format: 'html' });
+      await service.translate({ text: 'Hello', fromLanguage: 'en', toLanguage: 'es' });
+
+      expect(received.map(({ body }) => body.format)).toEqual(['html', 'text']);
+    });
+
+    it('should map detected languages when the source is auto', async () => {
+      const service = new TranslationService({ provider: 'google-cloud', apiKey: 'secret', endpoint });
+
+      const response = await service.translate({ text: 'Hello', fromLanguage: 'auto', toLanguage: 'fr' });
+
+      expect(received[0].body.source).toBeUndefined();
+      expect(response).toMatchObject({ translatedText: 'fr:Hello', detectedLanguage: 'en' });
+    });
+
+    it('should call the v3 translateText endpoint', async () => {
+      const service = new TranslationService({
+        provider: 'google-cloud',
+        apiVersion: 'v3',
+        apiKey: 'secret',
+        projectId: 'my-project',
+        region: 'us-central1',
+        model: 'general/nmt',
+        endpoint
+      });
+
+      const response = await service.translate({ text: 'Hello', fromLanguage: 'auto', toLanguage: 'de' });
+
+      expect(received[0].url).toBe('/v3/projects/my-project/locations/us-central1:translateText?key=secret');
+      expect(received[0].body).toEqual({
+        contents: ['Hello'],
+        targetLanguageCode: 'de',
+        mimeType: 'text/plain',
+        model: 'projects/my-project/locations/us-central1/models/general/nmt'
+      });
+      expect(response).toMatchObject({ translatedText: 'de:Hello', detectedLanguage: 'en' });
+    });
+  });
+
+  describe('provider registry', () => {
+    afterEach(() => {
+      unregisterTranslationProvider('reverse');
+    });
+
+    it('should use a registered provider by name', async () => {
+      const translateBatch = jest.fn(async (texts: string[]) =>
+        texts.map(text => ({ translatedText: text.split('').reverse().join('') }))
+      );
+      registerTranslationProvider('reverse', () => ({
+        limits: { maxTexts: 2, maxBytes: Infinity },
+        translate: async request => ({ translatedText: request.text.split('').reverse().join('') }),
+        translateBatch
+      }));
+      const service = new TranslationService({ provider: 'reverse' });
+
+      const responses = await service.translateBatch(requests(['abc', 'def', 'ghi']));
+
+      expect(translateBatch).toHaveBeenCalledTimes(2);
+      expect(responses.map(response => response.translatedText)).toEqual(['cba', 'fed', 'ihg']);
+      expect(responses[0].provider).toBe('reverse');
+      await expect(service.translate(requests(['xyz'])[0])).resolves.toMatchObject({ translatedText: 'zyx' });
+    });
+
+    it('should pass the config and a rate-limited request function to the factory', async () => {
+      const fetchMock = mockFetch(() => ({ result: 'Hola' }));
+      registerTranslationProvider('reverse', (config, context) => ({
+        async translate() {
+          const response = await context.request(config.endpoint!, { method: 'POST' });
+          return { translatedText: (await response.json()).result };
+        },
+        detectLanguage: async () => 'de',
+        getSupportedLanguages: async () => ['es', 'fr']
+      }));
+      const service = new TranslationService({ provider: 'reverse', endpoint: 'https://mt.example.com' });
+
+      await expect(service.translate(requests(['Hello'])[0])).resolves.toMatchObject({ translatedText: 'Hola' });
+      expect(fetchMock).toHaveBeenCalledWith('https://mt.example.com', { method: 'POST' });
+      await expect(service.detectLanguage('Hallo')).resolves.toBe('de');
+      await expect(service.getSupportedLanguages()).resolves.toEqual(['es', 'fr']);
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => new TranslationService({ provider: 'reverse' })).toThrow('Unsupported translation provider: reverse');
+    });
+  });
+
+  describe('DeepL provider', () => {
+    it('should send the primary source subtag and omit it for auto-detection', async () => {
+      const fetchMock = mockFetch(body => ({
+        translations: body.getAll('text').map(text => ({ text, detected_source_language: 'EN' }))
+      }));
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key' });
+
+      await service.translate({ text: 'Hello', fromLanguage: 'en-US', toLanguage: 'de' });
+      await service.translate({ text: 'Hello', fromLanguage: 'auto', toLanguage: 'de' });
+
+      const bodies = fetchMock.mock.calls.map(call => call[1].body as URLSearchParams);
+      expect(bodies[0].get('source_lang')).toBe('EN');
+      expect(bodies[1].has('source_lang')).toBe(false);
+    });
+
+    it('should batch HTML requests separately with XML tag handling', async () => {
+      const fetchMock = mockFetch(body => ({
+        translations: body.getAll('text').map(text => ({ text }))
+      }));
+      const service = new TranslationService({ provider: 'deepl', apiKey: 'key' });
+
+      const responses = await service.translateBatch([
+        { text: 'Read our <x1>terms</x1> first', fromLanguage: 'en', toLanguage: 'de', format: 'html' },
+        { text: 'Welcome', fromLanguage: 'en', toLanguage: 'de', format: 'text' }
+      ]);
+
+      const bodies = fetchMock.mock.calls.map(call => call[1].body as URLSearchParams);
+      expect(bodies).toHaveLength(2);
+      expect(bodies.map(body => [body.getAll('text'), body.get('tag_handling')])).toEqual([
+        [['Read our <x1>terms</x1> first'], 'xml'],
+        [['Welcome'], null]
+      ]);
+      expect(responses.map(response => response.translatedText)).toEqual(['Read our <x1>terms</x1> first', 'Welcome']);
+    });
+  });
+
+  describe('term protection', () => {
+    it('should mask protected terms and defaults and restore them in the translation', async () => {
+      const fetchMock = mockFetch(body => ({
+        translations: body.getAll('text').map(text => ({ text: `[de] ${text}` }))
+      }));
+      const service = new TranslationService({
+        provider: 'deepl',
+        apiKey: 'key',
+        protectedTerms: ['Acme Cloud'],
+        protectedPatterns: [/SKU-\d+/]
+      });
+
+      const response = await service.translate({
+        text: 'Hi {{name}}, Acme Cloud SKU-42 costs 19.99 at https://acme.io or mail help@acme.io',
+        fromLanguage: 'en',
+        toLanguage: 'de'
+      });
+
+      const sent = (fetchMock.mock.calls[0][1].body as URLSearchParams).get('text');
+      expect(sent).not.toMatch(/name|Acme|SKU|19|https|help@/);
+      expect(response.translatedText).toBe(
+        '[de] Hi {{name}}, Acme Cloud SKU-42 costs 19.99 at https://acme.io or mail help@acme.io'
+      );
+    });
+
+    it('should replace glossary terms for the language pair only', async () => {
+      const fetchMock = mockFetch(body => ({
+        translations: body.getAll('text').map(text => ({ text }))
+      }));
+      const service = new TranslationService({
+        provider: 'deepl',
+        apiKey: 'key',
+        glossary: { 'en:de': { 'checkout': 'Kasse', 'Pro Plan': 'Pro-Tarif' } }
+      });
+
+      const responses = await service.translateBatch([
+        { text: 'Go to checkout for the Pro Plan', fromLanguage: 'en', toLanguage: 'de' },
+        { text: 'Go to checkout', fromLanguage: 'en', toLanguage: 'fr' },
+        { text: 'checkouts', fromLanguage: 'en-US', toLanguage: 'de' }
+      ]);
+
+      expect(responses.map(response => response.translatedText)).toEqual([
+        'Go to Kasse for the Pro-Tarif',
+        'Go to checkout',
+        'checkouts'
+      ]);
+      expect((fetchMock.mock.calls[0][1].body as URLSearchParams).get('text')).toBe('Go to ⟦0⟧ for the ⟦1⟧');
+    });
+
+    it('should use a native DeepL glossary instead of masking glossary terms', async () => {
+      const fetchMock = mockFetch(body => ({
+        translations: body.getAll('text').map(text => ({ text }))
+      }));
+      const service = new TranslationService({
+        provider: 'deepl',
+        apiKey: 'key',
+        glossary: { 'en:de': { 'checkout': 'Kasse' } },
+        glossaryIds: { 'en:de': 'glossary-1' }
+      });
+
+      const response = await service.translate({ text: 'Open checkout', fromLanguage: 'en', toLanguage: 'de' });
+
+      const body = fetchMock.mock.calls[0][1].body as URLSearchParams;
+      expect(body.get('glossary_id')).toBe('glossary-1');
+      expect(body.get('text')).toBe('Open checkout');
+      expect(response.translatedText).toBe('Open checkout');
+    });
+  });
+
+  describe('language detection', () => {
+    const service = new TranslationService({ provider: 'deepl', apiKey: 'key' });
+
+    it('should tell languages sharing a script apart by their trigrams', async () => {
+      expect(await service.detectLanguage('Le renard brun rapide saute par-dessus le chien paresseux pendant que les enfants jouent dehors.')).toBe('fr');
+      expect(await service.detectLanguage('Der schnelle braune Fuchs springt über den faulen Hund, während die Kinder draußen spielen.')).toBe('de');
+      expect(await service.detectLanguage('Всі люди народжуються вільними і рівними у своїй гідності та правах.')).toBe('uk');
+      expect(await service.detectLanguage('今日はとても良い天気ですね')).toBe('ja');
+    });
+
+    it('should rank candidates by confidence', () => {
+      const candidates = service.detectLanguageCandidates('El rápido zorro marrón salta sobre el perro perezoso mientras los niños juegan afuera.');
+
+      expect(candidates[0].language).toBe('es');
+      expect(candidates[0].confidence).toBeGreaterThan(0.8);
+      expect(candidates.map(candidate => candidate.confidence)).toEqual(
+        [...candidates.map(candidate => candidate.confidence)].sort((a, b) => b - a)
+      );
+      expect(candidates.reduce((sum, candidate) => sum + candidate.confidence, 0)).toBeCloseTo(1);
+    });
+
+    it('should detect Kurdish from its Latin profile only', () => {
+      const kurmanji = service.detectLanguageCandidates('Hemû mirov azad û di weqar û mafan de wekhev tên dinyayê. Ew xwedî hiş û wijdan in.');
+      expect(kurmanji[0].language).toBe('ku');
+
+      const arabicScript = service.detectLanguageCandidates('جميع الناس يولدون أحراراً متساوين في الكرامة والحقوق وقد وهبوا عقلاً وضميراً');
+      expect(arabicScript[0].language).toBe('ar');
+      expect(arabicScript.map(candidate => candidate.language)).not.toContain('ku');
+    });
+
+    it('should fall back to the script for short texts', () => {
+      const latin = service.detectLanguageCandidates('Hola');
+      expect(latin[0]).toEqual({ language: 'en', confidence: 1 / latin.length });
+      expect(service.detectLanguageCandidates('Привет')[0].language).toBe('ru');
+      expect(service.detectLanguageCandidates('12345')).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment jsdom
+ */
+import { LanguageSwitcher } from '../src/core/language-switcher';
+import { registerTranslationProvider, unregisterTranslationProvider } from '../src/providers';
+import { TranslationRequest } from '../src/types/types';
+
+/**
+ * IntersectionObserver stand-in: elements intersect when `scrollTo` says so,
+ * unless they are hidden with `display: none`, which never intersects
+ */
+class StubIntersectionObserver {
+  public static instances = new Set<StubIntersectionObserver>();
+  private callback: IntersectionObserverCallback;
+  private targets = new Set<Element>();
+
+  constructor(callback: IntersectionObserverCallback) {
+    this.callback = callback;
+    StubIntersectionObserver.instances.add(this);
+  }
+
+  public static scrollTo(elements: Element[]): void {
+    StubIntersectionObserver.instances.forEach(observer => {
+      const entries = elements
+        .filter(element => observer.targets.has(element))
+        .map(target => ({
+          target,
+          isIntersecting: (target as HTMLElement).style.display !== 'none'
+        }) as IntersectionObserverEntry);
+      if (entries.length > 0) {
+        observer.callback(entries, observer as unknown as IntersectionObserver);
+      }
+    });
+  }
+
+  public static observed(): Element[] {
+    const targets: Element[] = [];
+    StubIntersectionObserver.instances.forEach(observer => targets.push(...Array.from(observer.targets)));
+    return targets;
+  }
+
+  public observe(target: Element): void {
+    this.targets.add(target);
+  }
+
+  public unobserve(target: Element): void {
+    this.targets.delete(target);
+  }
+
+  public disconnect(): void {
+    this.targets.clear();
+    StubIntersectionObserver.instances.delete(this);
+  }
+}
+
+describe('ViewportQueue', () => {
+  let sent: TranslationRequest[];
+
+  beforeAll(() => {
+    (window as unknown as { IntersectionObserver: unknown }).IntersectionObserver = StubIntersectionObserver;
+    registerTranslationProvider('brackets', () => ({
+      translate: async request => {
+        sent.push(request);
+        return { translatedText: `[${request.text}]` };
+      }
+    }));
+  });
+
+  afterAll(() => {
+    unregisterTranslationProvider('brackets');
+    delete (window as unknown as { IntersectionObserver?: unknown }).IntersectionObserver;
+  });
+
+  beforeEach(() => {
+    sent = [];
+    StubIntersectionObserver.instances.clear();
+    document.documentElement.setAttribute('lang', 'en');
+    document.body.innerHTML = [
+      '<p id="top">Text at the top</p>',
+      '<p id="bottom">Text further down</p>',
+      '<div aria-hidden="true"><p id="aria">Text hidden from assistive tech</p></div>',
+      '<p id="none" style="display: none">Text not displayed</p>'
+    ].join('');
+  });
+
+  function createSwitcher(): LanguageSwitcher {
+    const switcher = new LanguageSwitcher({
+      defaultLanguage: 'en',
+      persistLanguage: false,
+      lazyTranslation: true,
+      translationApi: { provider: 'brackets' }
+    });
+    switcher.addLanguage('es', { code: 'es', name: 'Español' });
+    switcher.addLanguage('fr', { code: 'fr', name: 'Français' });
+    return switcher;
+  }
+
+  function byId(id: string): HTMLElement {
+    return document.getElementById(id)!;
+  }
+
+  // Settles the translation requests released so far; works under fake timers too
+  async function flush(): Promise<void> {
+    for (let i = 0; i < 20; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  it('should translate visible content first and the rest as it scrolls into view', async () => {
+    const switcher = createSwitcher();
+    await switcher.translateElement(document.body, 'es');
+    expect(sent).toHaveLength(0);
+
+    StubIntersectionObserver.scrollTo([byId('top')]);
+    await flush();
+    expect(sent.map(request => request.text)).toEqual(['Text at the top']);
+    expect(byId('top').textContent).toBe('[Text at the top]');
+    expect(byId('bottom').textContent).toBe('Text further down');
+
+    StubIntersectionObserver.scrollTo([byId('top'), byId('bottom')]);
+    await flush();
+    expect(sent.map(request => request.text)).toEqual(['Text at the top', 'Text further down']);
+  });
+
+  it('should delay aria-hidden content and hold display:none content until shown', async () => {
+    jest.useFakeTimers();
+    try {
+      const switcher = createSwitcher();
+      await switcher.translateElement(document.body, 'es');
+      StubIntersectionObserver.scrollTo([byId('top'), byId('bottom'), byId('none')]);
+      await flush();
+      expect(sent.map(request => request.text)).toEqual(['Text at the top', 'Text further down']);
+
+      jest.advanceTimersByTime(2000);
+      await flush();
+      expect(sent.map(request => request.text)).toContain('Text hidden from assistive tech');
+      expect(sent.map(request => request.text)).not.toContain('Text not displayed');
+
+      byId('none').style.display = '';
+      StubIntersectionObserver.scrollTo([byId('none')]);
+      await flush();
+      expect(sent.map(request => request.text)).toContain('Text not displayed');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should drop pending content when the language changes', async () => {
+    const switcher = createSwitcher();
+    await switcher.translateElement(document.body, 'es');
+    expect(StubIntersectionObserver.observed()).toHaveLength(3);
+
+    await switcher.translateElement(byId('bottom'), 'fr');
+    expect(StubIntersectionObserver.observed()).toEqual([byId('bottom')]);
+
+    StubIntersectionObserver.scrollTo([byId('top'), byId('bottom')]);
+    await flush();
+    expect(sent.map(request => `${request.toLanguage}:${request.text}`)).toEqual(['fr:Text further down']);
+    expect(byId('top').textContent).toBe('Text at the top');
+  });
+});
\ No newline at end of file